@@ -0,0 +1,135 @@
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  MessageCreateParamsBase,
+  MessageCreateParamsNonStreaming,
+  MessageCreateParamsStreaming,
+  RawMessageStreamEvent,
+} from "@anthropic-ai/sdk/resources/messages.mjs";
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+  InvokeModelWithResponseStreamCommand,
+} from "@aws-sdk/client-bedrock-runtime";
+
+export const DEFAULT_BEDROCK_MODEL = "anthropic.claude-3-5-sonnet-20241022-v2:0";
+
+// AWS Bedrock client configuration, null if the AWS credentials are not set
+export const createBedrockRuntimeClient = () => {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  const region = process.env.AWS_REGION;
+
+  if (!accessKeyId || !secretAccessKey || !region) {
+    return null;
+  }
+
+  return new BedrockRuntimeClient({
+    credentials: {
+      accessKeyId,
+      secretAccessKey,
+    },
+    region,
+  });
+};
+
+// Bedrock takes the Anthropic request body minus model (part of the URL) and stream (separate command)
+const toBedrockBody = (params: MessageCreateParamsBase) => {
+  const { model, stream, metadata, ...body } = params;
+  return JSON.stringify({
+    anthropic_version: "bedrock-2023-05-31",
+    ...body,
+  });
+};
+
+// HTTP status codes of Bedrock exceptions that do not carry one in their metadata
+const bedrockErrorStatus: Record<string, number> = {
+  ValidationException: 400,
+  AccessDeniedException: 403,
+  ResourceNotFoundException: 404,
+  ModelTimeoutException: 408,
+  ModelErrorException: 424,
+  ThrottlingException: 429,
+  ServiceQuotaExceededException: 429,
+  ModelNotReadyException: 429,
+  InternalServerException: 500,
+  ModelStreamErrorException: 500,
+  ServiceUnavailableException: 503,
+};
+
+// Maps Bedrock exceptions to the error classes of the Anthropic SDK (RateLimitError, BadRequestError, ...)
+export const toAnthropicError = (error: unknown): unknown => {
+  if (!(error instanceof Error) || error instanceof Anthropic.APIError) {
+    return error;
+  }
+  // Service exceptions of the AWS SDK carry the response status in $metadata
+  const metadata = (error as { $metadata?: { httpStatusCode?: number } }).$metadata;
+  const status = metadata?.httpStatusCode || bedrockErrorStatus[error.name];
+  if (!status) {
+    return error;
+  }
+  const apiError = Anthropic.APIError.generate(
+    status,
+    { type: "error", error: { type: error.name, message: error.message } },
+    `Bedrock ${error.name}: ${error.message}`,
+    undefined
+  );
+  apiError.cause = error;
+  return apiError;
+};
+
+async function* streamEvents(
+  bedrock: BedrockRuntimeClient,
+  params: MessageCreateParamsStreaming,
+  options?: Anthropic.RequestOptions
+): AsyncGenerator<RawMessageStreamEvent> {
+  try {
+    const response = await bedrock.send(new InvokeModelWithResponseStreamCommand({
+      modelId: params.model,
+      body: toBedrockBody(params),
+      contentType: "application/json",
+      accept: "application/json",
+    }), { abortSignal: options?.signal ?? undefined });
+    if (!response.body) {
+      throw new Error("Bedrock returned an empty response stream");
+    }
+
+    const decoder = new TextDecoder();
+    for await (const item of response.body) {
+      if (item.chunk?.bytes) {
+        yield JSON.parse(decoder.decode(item.chunk.bytes));
+      }
+    }
+  } catch (error) {
+    throw toAnthropicError(error);
+  }
+}
+
+// Adapter with the same messages.create interface as the Anthropic client,
+// forwards all request parameters and the model to Bedrock
+export const createBedrockMessagesClient = (bedrock: BedrockRuntimeClient) => {
+  function create(params: MessageCreateParamsNonStreaming, options?: Anthropic.RequestOptions): Promise<Anthropic.Messages.Message>;
+  function create(params: MessageCreateParamsStreaming, options?: Anthropic.RequestOptions): Promise<AsyncIterable<RawMessageStreamEvent>>;
+  async function create(
+    params: MessageCreateParamsBase,
+    options?: Anthropic.RequestOptions
+  ): Promise<Anthropic.Messages.Message | AsyncIterable<RawMessageStreamEvent>> {
+    if (params.stream) {
+      return streamEvents(bedrock, params as MessageCreateParamsStreaming, options);
+    }
+
+    try {
+      const response = await bedrock.send(new InvokeModelCommand({
+        modelId: params.model,
+        body: toBedrockBody(params),
+        contentType: "application/json",
+        accept: "application/json",
+      }), { abortSignal: options?.signal ?? undefined });
+      return JSON.parse(new TextDecoder().decode(response.body)) as Anthropic.Messages.Message;
+    } catch (error) {
+      console.error("Error invoking Bedrock Claude:", error);
+      throw toAnthropicError(error);
+    }
+  }
+
+  return { messages: { create } };
+};
@@ -0,0 +1,277 @@
+import { MessageParam } from "@anthropic-ai/sdk/resources/messages.mjs";
+import { z } from "zod";
+
+import { toolRegistry } from "./tools";
+import { formatValidationError, toAnthropicTool } from "./tool-registry";
+import { toolExecutor } from "./tool-executor";
+import { ChatSession } from "./chat-sessions";
+import { deniedMessage, getApprovalPolicy } from "./tool-approval";
+import { ChatProfile, ChatProfiles, ChatSettings, createChatSettings, findChatProfile } from "./chat-profiles";
+
+// The chat state the commands can read and change
+export type ChatCommandContext = {
+  messages: MessageParam[];
+  settings: ChatSettings;
+  profiles: ChatProfiles;
+  // Model of the LLM provider, used when a profile does not set one
+  defaultModel: string;
+  session?: ChatSession;
+  saveSession: () => Promise<void>;
+  printUsageSummary: () => void;
+  resetSession: () => Promise<ChatSession>;
+};
+
+// "exit" ends the chat loop
+type ChatCommandResult = void | "exit";
+
+type ChatCommand = {
+  name: string;
+  usage: string;
+  description: string;
+  run: (args: string, context: ChatCommandContext) => Promise<ChatCommandResult>;
+};
+
+const preview = (text: string, maxLength = 200) => {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 3)}...` : singleLine;
+};
+
+// One line per content block: text, tool calls and their results
+const describeMessage = (message: MessageParam) => {
+  if (typeof message.content === "string") {
+    return [preview(message.content)];
+  }
+  return message.content.map((block) => {
+    switch (block.type) {
+      case "text":
+        return preview(block.text);
+      case "tool_use":
+        return `[tool call ${block.name} ${preview(JSON.stringify(block.input))}]`;
+      case "tool_result": {
+        const content = typeof block.content === "string"
+          ? block.content
+          : (block.content || []).map((part) => (part.type === "text" ? part.text : `[${part.type}]`)).join(" ");
+        return `[tool result${block.is_error ? " (error)" : ""} ${preview(content)}]`;
+      }
+      default:
+        return `[${block.type}]`;
+    }
+  });
+};
+
+const commands: ChatCommand[] = [
+  {
+    name: "help",
+    usage: "/help",
+    description: "List the chat commands",
+    run: async () => {
+      commands.forEach((command) => console.log(`${command.usage.padEnd(28)} ${command.description}`));
+      console.log(`${"quit, exit".padEnd(28)} End the chat`);
+    },
+  },
+  {
+    name: "tools",
+    usage: "/tools [tool]",
+    description: "List the tools of the current profile, or show the input schema of one tool",
+    run: async (args, { settings }) => {
+      if (!args) {
+        toolRegistry
+          .filter((tool) => settings.tools.some((enabled) => enabled.name === tool.name))
+          .forEach((tool) => console.log(`${tool.name} (${tool.group}): ${preview(tool.description, 100)}`));
+        return;
+      }
+      const tool = toolRegistry.find((candidate) => candidate.name === args);
+      if (!tool) {
+        console.log(`Unknown tool ${args}, /tools lists the available tools.`);
+        return;
+      }
+      console.log(`${tool.name} (${tool.group})\n${tool.description}`);
+      console.log(JSON.stringify(toAnthropicTool(tool).input_schema, null, 2));
+    },
+  },
+  {
+    name: "call",
+    usage: "/call <tool> <json input>",
+    description: "Call a tool directly, without the model and without adding it to the history",
+    run: async (args) => {
+      const separator = args.search(/\s/);
+      const name = separator === -1 ? args : args.slice(0, separator);
+      const rawInput = separator === -1 ? "{}" : args.slice(separator + 1).trim();
+      const tool = toolRegistry.find((candidate) => candidate.name === name);
+      if (!tool) {
+        console.log(name ? `Unknown tool ${name}, /tools lists the available tools.` : "Usage: /call <tool> <json input>");
+        return;
+      }
+      // Calling a tool directly is the user's approval, only deny still applies
+      if (getApprovalPolicy(tool) === "deny") {
+        console.log(deniedMessage(tool.name));
+        return;
+      }
+
+      let input: unknown;
+      try {
+        input = JSON.parse(rawInput);
+      } catch (error) {
+        console.log(`The input is not valid JSON: ${error.message}`);
+        return;
+      }
+      const validation = z.object(tool.schema).safeParse(input);
+      if (!validation.success) {
+        console.log(formatValidationError(tool.name, validation.error));
+        return;
+      }
+
+      const result = await toolExecutor.run(tool, validation.data);
+      result.content.forEach((content) => console.log(content.text));
+    },
+  },
+  {
+    name: "profile",
+    usage: "/profile [name]",
+    description: "List the profiles, or switch to one (resets model, temperature and tools)",
+    run: async (args, context) => {
+      if (!args) {
+        if (!context.profiles.profiles.length) {
+          console.log("No chat profiles are configured.");
+          return;
+        }
+        context.profiles.profiles.forEach((profile) => {
+          const current = profile.name === context.settings.profile ? "* " : "  ";
+          console.log(`${current}${profile.name}${profile.description ? `: ${profile.description}` : ""}`);
+        });
+        return;
+      }
+      let profile: ChatProfile;
+      try {
+        profile = findChatProfile(context.profiles, args);
+      } catch (error) {
+        console.log(error.message);
+        return;
+      }
+      Object.assign(context.settings, createChatSettings(context.defaultModel, profile));
+      const { model, temperature, maxTokens, tools } = context.settings;
+      console.log(`Profile ${profile.name}: model ${model}, temperature ${temperature}, max tokens ${maxTokens}, ${tools.length} tools`);
+    },
+  },
+  {
+    name: "model",
+    usage: "/model [model]",
+    description: "Show or change the model for the next requests",
+    run: async (args, { settings }) => {
+      if (args) {
+        settings.model = args;
+      }
+      console.log(`Model: ${settings.model}`);
+    },
+  },
+  {
+    name: "temperature",
+    usage: "/temperature [0-1]",
+    description: "Show or change the sampling temperature",
+    run: async (args, { settings }) => {
+      if (args) {
+        const temperature = Number(args);
+        if (Number.isNaN(temperature) || temperature < 0 || temperature > 1) {
+          console.log("The temperature must be a number between 0 and 1.");
+          return;
+        }
+        settings.temperature = temperature;
+      }
+      console.log(`Temperature: ${settings.temperature}`);
+    },
+  },
+  {
+    name: "history",
+    usage: "/history",
+    description: "Show the conversation so far",
+    run: async (args, { messages }) => {
+      if (!messages.length) {
+        console.log("The conversation is empty.");
+        return;
+      }
+      messages.forEach((message, index) => {
+        describeMessage(message).forEach((line) => console.log(`${String(index + 1).padStart(3)} ${message.role}: ${line}`));
+      });
+    },
+  },
+  {
+    name: "usage",
+    usage: "/usage",
+    description: "Show the tokens and estimated cost of this session",
+    run: async (args, context) => {
+      if (!context.session?.usage?.requests) {
+        console.log("No requests in this session yet.");
+        return;
+      }
+      context.printUsageSummary();
+    },
+  },
+  {
+    name: "save",
+    usage: "/save [name]",
+    description: "Save the session now, optionally under a new name",
+    run: async (args, context) => {
+      if (!context.session) {
+        console.log("This chat has no session to save.");
+        return;
+      }
+      if (args) {
+        context.session.name = args;
+      }
+      await context.saveSession();
+      console.log(`Saved chat session "${context.session.name}" (${context.session.id}, ${context.messages.length} messages)`);
+    },
+  },
+  {
+    name: "reset",
+    usage: "/reset",
+    description: "Clear the history and start a new session, the current one stays saved",
+    run: async (args, context) => {
+      const session = await context.resetSession();
+      console.log(`History cleared, continuing in the new chat session "${session.name}"`);
+    },
+  },
+  {
+    name: "exit",
+    usage: "/exit",
+    description: "End the chat",
+    run: async () => "exit",
+  },
+];
+
+export const isChatCommand = (line: string) => line.startsWith("/");
+
+export const runChatCommand = async (line: string, context: ChatCommandContext): Promise<ChatCommandResult> => {
+  const [, name, args = ""] = line.match(/^\/(\S*)\s*([\s\S]*)$/) || [];
+  const command = commands.find((candidate) => candidate.name === name);
+  if (!command) {
+    console.log(`Unknown command /${name}, /help lists the available commands.`);
+    return;
+  }
+  return command.run(args.trim(), context);
+};
+
+// Completes command names, and tool or profile names for the commands that take one
+export const completeChatCommand = (line: string, profiles: ChatProfiles): string[] => {
+  if (!isChatCommand(line)) return [];
+
+  const profileArgument = line.match(/^\/profile (\S*)$/);
+  if (profileArgument) {
+    return profiles.profiles
+      .filter((profile) => profile.name.startsWith(profileArgument[1]))
+      .map((profile) => `/profile ${profile.name}`);
+  }
+
+  const toolArgument = line.match(/^\/(tools|call) (\S*)$/);
+  if (toolArgument) {
+    const [, command, partial] = toolArgument;
+    return toolRegistry
+      .filter((tool) => tool.name.startsWith(partial))
+      .map((tool) => `/${command} ${tool.name}${command === "call" ? " " : ""}`);
+  }
+
+  if (line.includes(" ")) return [];
+  return commands
+    .filter((command) => `/${command.name}`.startsWith(line))
+    .map((command) => `/${command.name}`);
+};
@@ -0,0 +1,107 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+
+import { toolRegistry } from "./tools";
+import { selectTools, toAnthropicTool } from "./tool-registry";
+
+const chatProfileSchema = z.object({
+  description: z.string().optional(),
+  systemPrompt: z.string().optional(),
+  // The provider's default model is used when not set, Bedrock needs Bedrock model IDs
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(1).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  // Tool groups and tool names, every tool when not set
+  tools: z.array(z.string()).optional(),
+}).strict();
+
+const chatProfilesFileSchema = z.object({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(chatProfileSchema),
+}).strict();
+
+export type ChatProfile = z.infer<typeof chatProfileSchema> & {
+  name: string;
+};
+
+export type ChatProfiles = {
+  defaultProfile?: string;
+  profiles: ChatProfile[];
+};
+
+// Everything a chat request is configured with, /model and /temperature change it mid-session
+export type ChatSettings = {
+  profile?: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  systemPrompt?: string;
+  tools: Anthropic.Tool[];
+};
+
+export const DEFAULT_TEMPERATURE = 0.95;
+export const DEFAULT_MAX_TOKENS = 2048;
+
+const getProfilesFile = () => path.resolve(process.env.CHAT_PROFILES_FILE || "chat-profiles.json");
+
+// Reads the profiles file, a missing default file just means there are no profiles
+export const loadChatProfiles = (): ChatProfiles => {
+  const file = getProfilesFile();
+  let content: string;
+  try {
+    content = readFileSync(file, "utf8");
+  } catch (error) {
+    if (error.code === "ENOENT" && !process.env.CHAT_PROFILES_FILE) {
+      return { profiles: [] };
+    }
+    throw new Error(`Could not read the chat profiles file ${file}: ${error.message}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`The chat profiles file ${file} is not valid JSON: ${error.message}`);
+  }
+
+  const parsed = chatProfilesFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `- ${issue.path.join(".") || "(file)"}: ${issue.message}`);
+    throw new Error(`Invalid chat profiles file ${file}:\n${issues.join("\n")}`);
+  }
+
+  const profiles = Object.entries(parsed.data.profiles).map(([name, profile]) => ({ name, ...profile }));
+  // Unknown tool selectors are reported at startup, not when the profile is first used
+  profiles.forEach((profile) => {
+    try {
+      if (profile.tools) selectTools(toolRegistry, profile.tools);
+    } catch (error) {
+      throw new Error(`Chat profile ${profile.name}: ${error.message}`);
+    }
+  });
+  if (parsed.data.defaultProfile && !profiles.some((profile) => profile.name === parsed.data.defaultProfile)) {
+    throw new Error(`The default chat profile ${parsed.data.defaultProfile} is not defined in ${file}`);
+  }
+  return { defaultProfile: parsed.data.defaultProfile, profiles };
+};
+
+export const findChatProfile = (profiles: ChatProfiles, name: string): ChatProfile => {
+  const profile = profiles.profiles.find((candidate) => candidate.name === name);
+  if (!profile) {
+    const available = profiles.profiles.map((candidate) => candidate.name).join(", ") || "none";
+    throw new Error(`Unknown chat profile "${name}", available profiles: ${available}`);
+  }
+  return profile;
+};
+
+// Settings of a profile, the defaults apply to everything the profile leaves out
+export const createChatSettings = (defaultModel: string, profile?: ChatProfile): ChatSettings => ({
+  profile: profile?.name,
+  model: profile?.model || defaultModel,
+  temperature: profile?.temperature ?? DEFAULT_TEMPERATURE,
+  maxTokens: profile?.maxTokens ?? DEFAULT_MAX_TOKENS,
+  systemPrompt: profile?.systemPrompt,
+  tools: (profile?.tools ? selectTools(toolRegistry, profile.tools) : toolRegistry).map(toAnthropicTool),
+});
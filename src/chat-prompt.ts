@@ -0,0 +1,58 @@
+import {
+  createPrompt,
+  isEnterKey,
+  makeTheme,
+  useKeypress,
+  usePrefix,
+  useState,
+} from "@inquirer/core";
+
+type ChatPromptConfig = {
+  message: string;
+  // Returns the possible completions of the current line
+  complete: (line: string) => string[];
+};
+
+const commonPrefix = (values: string[]) =>
+  values.reduce((prefix, value) => {
+    let length = 0;
+    while (length < prefix.length && prefix[length] === value[length]) length++;
+    return prefix.slice(0, length);
+  });
+
+// Text input like the inquirer input prompt, with tab completion: a single match is completed,
+// several matches are completed to their common prefix and listed below the prompt
+export const chatPrompt = createPrompt<string, ChatPromptConfig>((config, done) => {
+  const theme = makeTheme();
+  const [status, setStatus] = useState<"pending" | "done">("pending");
+  const [value, setValue] = useState("");
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const prefix = usePrefix({ theme });
+
+  useKeypress((key, rl) => {
+    if (status !== "pending") return;
+
+    if (isEnterKey(key)) {
+      setStatus("done");
+      setCandidates([]);
+      done(value);
+    } else if (key.name === "tab") {
+      // Readline has already inserted the tab character
+      const line = rl.line.replace(/\t/g, "");
+      const matches = config.complete(line);
+      const completed = matches.length === 1 ? matches[0] : matches.length ? commonPrefix(matches) : line;
+      rl.clearLine(0);
+      rl.write(completed.length > line.length ? completed : line);
+      setValue(rl.line);
+      setCandidates(matches.length > 1 ? matches : []);
+    } else {
+      setValue(rl.line);
+      setCandidates([]);
+    }
+  });
+
+  const message = theme.style.message(config.message);
+  const answer = status === "done" ? theme.style.answer(value) : value;
+  const hint = candidates.length ? theme.style.help(candidates.join("  ")) : undefined;
+  return [[prefix, message, answer].join(" "), hint];
+});
@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { MessageParam } from "@anthropic-ai/sdk/resources/messages.mjs";
+
+import { SessionUsage } from "./usage-tracker";
+
+export type ChatSession = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  // ID of the session this one was forked from
+  forkedFrom?: string;
+  // Chat profile in use when the session was last saved
+  profile?: string;
+  usage?: SessionUsage;
+  messages: MessageParam[];
+};
+
+export type ChatSessionSummary = Omit<ChatSession, "messages"> & {
+  messageCount: number;
+};
+
+export const getSessionsDir = () => path.resolve(process.env.CHAT_SESSIONS_DIR || ".chat-sessions");
+
+const sessionFile = (id: string) => path.join(getSessionsDir(), `${id}.json`);
+
+export const createSession = (name?: string): ChatSession => {
+  const now = new Date().toISOString();
+  const id = `${now.slice(0, 10)}-${randomUUID().slice(0, 8)}`;
+  return {
+    id,
+    name: name || id,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+};
+
+// Writes to a temporary file first, so a crash while saving never corrupts the session
+export const saveSession = async (session: ChatSession) => {
+  await mkdir(getSessionsDir(), { recursive: true });
+  session.updatedAt = new Date().toISOString();
+  const file = sessionFile(session.id);
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  await writeFile(tmpFile, JSON.stringify(session, null, 2));
+  await rename(tmpFile, file);
+};
+
+const readSession = async (file: string): Promise<ChatSession> =>
+  JSON.parse(await readFile(file, "utf8"));
+
+// Most recently updated first, an empty list if the directory does not exist yet
+export const listSessions = async (): Promise<ChatSessionSummary[]> => {
+  let files: string[];
+  try {
+    files = (await readdir(getSessionsDir())).filter((file) => file.endsWith(".json"));
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const sessions = await Promise.all(files.map(async (file) => {
+    const { messages, ...session } = await readSession(path.join(getSessionsDir(), file));
+    return { ...session, messageCount: messages.length };
+  }));
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// Finds a session by ID or name, "last" (or no reference) is the most recently updated one
+export const loadSession = async (reference?: string): Promise<ChatSession> => {
+  const sessions = await listSessions();
+  if (!sessions.length) {
+    throw new Error(`No saved chat sessions in ${getSessionsDir()}`);
+  }
+
+  const matches = !reference || reference === "last"
+    ? sessions.slice(0, 1)
+    : sessions.filter((session) => session.id === reference || session.name === reference);
+  if (!matches.length) {
+    throw new Error(`Chat session "${reference}" not found, run with --sessions to list them`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Chat session name "${reference}" is ambiguous, use one of the IDs: ${matches.map((session) => session.id).join(", ")}`);
+  }
+  return readSession(sessionFile(matches[0].id));
+};
+
+// Copies the history into a new session, the original stays untouched
+export const forkSession = async (reference?: string, name?: string): Promise<ChatSession> => {
+  const original = await loadSession(reference);
+  const fork = createSession(name || `${original.name} (fork)`);
+  fork.forkedFrom = original.id;
+  fork.messages = structuredClone(original.messages);
+  await saveSession(fork);
+  return fork;
+};
+
+export const renameSession = async (reference: string, name: string) => {
+  if (!name) {
+    throw new Error("The new session name must not be empty");
+  }
+  const session = await loadSession(reference);
+  session.name = name;
+  await saveSession(session);
+  return session;
+};
+
+export const deleteSession = async (reference: string) => {
+  const session = await loadSession(reference);
+  await unlink(sessionFile(session.id));
+  return session;
+};
@@ -0,0 +1,188 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { MessageParam, ToolResultBlockParam } from "@anthropic-ai/sdk/resources/messages.mjs";
+
+export type ContextWindowConfig = {
+  // Compaction starts when a request is estimated above this many input tokens
+  tokenBudget: number;
+  // and shrinks the history to this share of the budget, so it does not run on every turn
+  targetRatio: number;
+};
+
+export type CompactionResult = {
+  tokensBefore: number;
+  tokensAfter: number;
+  trimmedToolResults: number;
+  droppedMessages: number;
+};
+
+// What compaction leaves out of the requests, the history keeps everything
+export type CompactionState = {
+  // Leading messages that are no longer sent
+  droppedMessages: number;
+  // Tool results sent as a short notice, with the tokens they had, by tool_use_id
+  trimmedToolResults: Map<string, number>;
+};
+
+// Input tokens the API reported for a prefix of the history, estimates only cover the rest
+export type TokenBaseline = {
+  messageCount: number;
+  tokens: number;
+};
+
+// Rough estimate of ~4 characters per token, good enough to decide when to compact
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 1600;
+
+export const loadContextWindowConfig = (): ContextWindowConfig => ({
+  tokenBudget: Number(process.env.CONTEXT_TOKEN_BUDGET) || 150000,
+  targetRatio: 0.75,
+});
+
+export const createCompactionState = (): CompactionState => ({
+  droppedMessages: 0,
+  trimmedToolResults: new Map(),
+});
+
+const estimateTextTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateMessageTokens = (message: MessageParam): number => {
+  if (typeof message.content === "string") {
+    return estimateTextTokens(message.content);
+  }
+  return message.content.reduce((total, block) => {
+    switch (block.type) {
+      case "text":
+        return total + estimateTextTokens(block.text);
+      case "image":
+        return total + IMAGE_TOKENS;
+      case "tool_use":
+        return total + estimateTextTokens(block.name + JSON.stringify(block.input));
+      case "tool_result": {
+        if (typeof block.content === "string") {
+          return total + estimateTextTokens(block.content);
+        }
+        return total + (block.content || []).reduce(
+          (sum, part) => sum + (part.type === "text" ? estimateTextTokens(part.text) : IMAGE_TOKENS),
+          0
+        );
+      }
+      default:
+        return total;
+    }
+  }, 0);
+};
+
+export const estimateTokens = (messages: MessageParam[], tools: Anthropic.Tool[] = [], system = "") =>
+  estimateTextTokens(JSON.stringify(tools) + system) +
+  messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+
+const trimmedNotice = (tokens: number) =>
+  `[Tool result removed to save context, it had about ${tokens} tokens. Call the tool again if it is needed.]`;
+
+const isTrimmed = (block: { type: string }, state: CompactionState) =>
+  block.type === "tool_result" && state.trimmedToolResults.has((block as ToolResultBlockParam).tool_use_id);
+
+// The history as it is sent: without the dropped messages and with trimmed tool results replaced
+// by a notice. Changed messages are copies, the history itself stays complete for the saved session.
+export const compactedMessages = (messages: MessageParam[], state: CompactionState): MessageParam[] =>
+  messages.slice(state.droppedMessages).map((message) => {
+    if (!Array.isArray(message.content) || !message.content.some((block) => isTrimmed(block, state))) {
+      return message;
+    }
+    return {
+      ...message,
+      content: message.content.map((block) => block.type === "tool_result" && isTrimmed(block, state)
+        ? { ...block, content: trimmedNotice(state.trimmedToolResults.get(block.tool_use_id)!) }
+        : block),
+    };
+  });
+
+// Uses the reported token count for the part of the history the last response covered
+export const estimateRequestTokens = (
+  messages: MessageParam[],
+  tools: Anthropic.Tool[],
+  system: string | undefined,
+  state: CompactionState,
+  baseline?: TokenBaseline
+) => {
+  if (!baseline || baseline.messageCount > messages.length) {
+    return estimateTokens(compactedMessages(messages, state), tools, system);
+  }
+  return baseline.tokens + estimateTokens(messages.slice(baseline.messageCount));
+};
+
+const hasToolResults = (message: MessageParam) =>
+  Array.isArray(message.content) && message.content.some((block) => block.type === "tool_result");
+
+// A turn starts with a user message that answers no tool call, so a turn always contains
+// both halves of its tool_use/tool_result pairs and can be dropped as a whole
+const turnStarts = (messages: MessageParam[]) =>
+  messages
+    .map((message, index) => (message.role === "user" && !hasToolResults(message) ? index : -1))
+    .filter((index) => index !== -1);
+
+// Keeps the requests below the token budget: first replaces the content of older tool results
+// with a short notice, then drops whole turns, oldest first. An agent loop can collect several
+// large results in the current turn, so they are trimmed as well, except the latest ones the
+// model has not seen yet. The current turn is never dropped, and tool_use/tool_result pairs are
+// never split. Only the state changes, not the history, and what was left out stays out, so the
+// start of the requests stays the same for the prompt cache.
+export const compactHistory = (
+  messages: MessageParam[],
+  tools: Anthropic.Tool[],
+  system: string | undefined,
+  config: ContextWindowConfig,
+  state: CompactionState,
+  baseline?: TokenBaseline
+): CompactionResult | null => {
+  const tokensBefore = estimateRequestTokens(messages, tools, system, state, baseline);
+  if (tokensBefore <= config.tokenBudget) {
+    return null;
+  }
+
+  const target = config.tokenBudget * config.targetRatio;
+  const sent = compactedMessages(messages, state);
+  const starts = turnStarts(sent);
+  const currentTurn = starts.length ? starts[starts.length - 1] : 0;
+  let latestResults = sent.length - 1;
+  while (latestResults >= 0 && !hasToolResults(sent[latestResults])) latestResults--;
+  // Compaction changes earlier messages, so from here on everything is estimated
+  let tokens = estimateTokens(sent, tools, system);
+  let trimmedToolResults = 0;
+
+  for (const message of sent.slice(0, Math.max(currentTurn, latestResults))) {
+    if (tokens <= target) break;
+    if (!Array.isArray(message.content)) continue;
+
+    for (const block of message.content) {
+      if (block.type !== "tool_result" || isTrimmed(block, state) || tokens <= target) continue;
+      const before = estimateMessageTokens({ role: "user", content: [block] });
+      const notice = trimmedNotice(before);
+      if (before <= estimateTextTokens(notice)) continue;
+
+      state.trimmedToolResults.set(block.tool_use_id, before);
+      tokens -= before - estimateTextTokens(notice);
+      trimmedToolResults++;
+    }
+  }
+
+  // The trimmed results count with their notice when whole turns are dropped
+  const trimmed = compactedMessages(messages, state);
+  let droppedMessages = 0;
+  const droppableTurns = starts.filter((start) => start > 0 && start <= currentTurn);
+  for (const nextTurn of droppableTurns) {
+    if (tokens <= target) break;
+    tokens -= trimmed
+      .slice(droppedMessages, nextTurn)
+      .reduce((total, message) => total + estimateMessageTokens(message), 0);
+    droppedMessages = nextTurn;
+  }
+  state.droppedMessages += droppedMessages;
+
+  return {
+    tokensBefore,
+    tokensAfter: tokens,
+    trimmedToolResults,
+    droppedMessages,
+  };
+};
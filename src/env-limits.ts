@@ -0,0 +1,14 @@
+// Limits are read once at startup, so a typo fails fast instead of at the first tool call or script
+export const parseLimit = (value: string, setting: string) => {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`${setting} must be a positive integer, got "${value}"`);
+  }
+  return limit;
+};
+
+// Reads a positive integer limit from the environment, falls back to the default when unset
+export const readLimit = (name: string, defaultValue: number) => {
+  const value = process.env[name];
+  return value ? parseLimit(value, name) : defaultValue;
+};
@@ -1,95 +1,249 @@
 import dotenv from "dotenv";
-import { input } from "@inquirer/prompts";
+import { confirm } from "@inquirer/prompts";
+import { ExitPromptError } from "@inquirer/core";
 import {
   MessageParam,
+  ToolResultBlockParam,
   ToolUseBlock,
 } from "@anthropic-ai/sdk/resources/messages.mjs";
 import Anthropic from "@anthropic-ai/sdk";
-import { BedrockRuntimeClient, InvokeModelCommand } from "@aws-sdk/client-bedrock-runtime";
 import net from 'net';
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { z, ZodTypeAny } from 'zod';
-import express, { Express } from "express";
 dotenv.config();
 
-import { tools, functions, zodSchemas } from "./tools";
+import { toolRegistry, zodSchemas } from "./tools";
+import { toolExecutor } from "./tool-executor";
+import { TextContent, formatValidationError } from "./tool-registry";
+import { McpHttpServer, runStdioServer, startMcpHttpServer } from "./mcp-server";
+import { readMessageStream } from "./message-stream";
+import { LlmClient, createLlmClient } from "./llm-client";
+import { addCacheBreakpoints, supportsPromptCaching } from "./prompt-cache";
+import { approvalQuestion, declinedMessage, deniedMessage, getApprovalPolicy } from "./tool-approval";
+import {
+  ChatSession,
+  createSession,
+  deleteSession,
+  forkSession,
+  getSessionsDir,
+  listSessions,
+  loadSession,
+  renameSession,
+  saveSession,
+} from "./chat-sessions";
+import { chatPrompt } from "./chat-prompt";
+import {
+  TokenBaseline,
+  compactHistory,
+  compactedMessages,
+  createCompactionState,
+  estimateMessageTokens,
+  loadContextWindowConfig,
+} from "./context-window";
+import {
+  ModelPrice,
+  SessionUsage,
+  addTokenUsage,
+  createSessionUsage,
+  emptyTokenUsage,
+  formatCost,
+  formatTokenUsage,
+  formatUsageSummary,
+  loadModelPrices,
+  recordRequest,
+  recordToolResult,
+  sessionCost,
+  toTokenUsage,
+} from "./usage-tracker";
+import {
+  ChatProfiles,
+  ChatSettings,
+  createChatSettings,
+  findChatProfile,
+  loadChatProfiles,
+} from "./chat-profiles";
+import { CollectionRunParams, startCollectionRun } from "./postman-collection-runner";
+import { ReportFormat, formatRunMarkdown, reportFormats, runStats } from "./postman-run-report";
+import {
+  ChatCommandContext,
+  completeChatCommand,
+  isChatCommand,
+  runChatCommand,
+} from "./chat-commands";
+import { readLimit } from "./env-limits";
+
+type RunMode = "chat" | "server" | "both" | "stdio";
+
+const runModes: RunMode[] = ["chat", "server", "both", "stdio"];
+
+// Run mode from the command line (--mode=<mode>, --mode <mode>, --chat, --server, --mcp-stdio)
+// or the RUN_MODE environment variable, defaults to chat and HTTP server combined
+function resolveRunMode(args: string[]): RunMode {
+  let mode: string | undefined = process.env.RUN_MODE;
+
+  args.forEach((arg, index) => {
+    if (arg === "--mcp-stdio") mode = "stdio";
+    else if (arg === "--chat") mode = "chat";
+    else if (arg === "--server") mode = "server";
+    else if (arg.startsWith("--mode=")) mode = arg.slice("--mode=".length);
+    else if (arg === "--mode") mode = args[index + 1];
+  });
 
-// AWS Bedrock client configuration
-const createBedrockClient = () => {
-  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
-  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
-  const region = process.env.AWS_REGION;
+  if (!mode) return "both";
+  if (!runModes.includes(mode as RunMode)) {
+    throw new Error(`Unknown run mode "${mode}", expected one of: ${runModes.join(", ")}`);
+  }
+  return mode as RunMode;
+}
 
-  if (!accessKeyId || !secretAccessKey || !region) {
-    return null;
+type SessionCommand =
+  | { action: "new"; name?: string }
+  | { action: "resume"; reference?: string }
+  | { action: "fork"; reference?: string; name?: string }
+  | { action: "list" }
+  | { action: "rename"; reference: string; name: string }
+  | { action: "delete"; reference: string };
+
+// Values of a flag: --flag=value and/or the arguments after it up to the next flag
+function flagValues(args: string[], flag: string): string[] | undefined {
+  const index = args.findIndex((arg) => arg === flag || arg.startsWith(`${flag}=`));
+  if (index === -1) return undefined;
+
+  const values = args[index].startsWith(`${flag}=`) ? [args[index].slice(flag.length + 1)] : [];
+  for (const arg of args.slice(index + 1)) {
+    if (arg.startsWith("--")) break;
+    values.push(arg);
   }
+  return values;
+}
 
-  return new BedrockRuntimeClient({
-    credentials: {
-      accessKeyId,
-      secretAccessKey,
-    },
-    region,
-  });
-};
+// Session handling from the command line: --sessions, --resume [id|name], --fork [id|name],
+// --rename-session <id|name> <new name>, --delete-session <id|name> and --session-name <name>
+function resolveSessionCommand(args: string[]): SessionCommand {
+  const name = flagValues(args, "--session-name")?.join(" ") || undefined;
 
-// Function to invoke Claude via Bedrock
-const invokeBedrockClaude = async (
-  client: BedrockRuntimeClient,
-  messages: Array<{ role: string; content: string | Array<{ type: string; text: string }> }>,
-  tools: Anthropic.Tool[]
-) => {
-  const input = {
-    anthropic_version: "bedrock-2023-05-31",
-    max_tokens: 1024,
-    messages,
-    tools
-  };
+  if (flagValues(args, "--sessions")) return { action: "list" };
 
-  const command = new InvokeModelCommand({
-    modelId: "anthropic.claude-3-5-sonnet-20241022-v2:0",
-    body: JSON.stringify(input),
-    contentType: "application/json",
-  });
+  const rename = flagValues(args, "--rename-session");
+  if (rename) {
+    const [reference, ...newName] = rename;
+    if (!reference || !newName.length) {
+      throw new Error("--rename-session requires the session and its new name, e.g. --rename-session <id> <new name>");
+    }
+    return { action: "rename", reference, name: newName.join(" ") };
+  }
 
-  try {
-    const response = await client.send(command);
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-    return responseBody;
-  } catch (error) {
-    console.error("Error invoking Bedrock Claude:", error);
-    throw error;
+  const deleted = flagValues(args, "--delete-session");
+  if (deleted) {
+    if (!deleted[0]) {
+      throw new Error("--delete-session requires a session ID or name");
+    }
+    return { action: "delete", reference: deleted.join(" ") };
   }
+
+  const resume = flagValues(args, "--resume");
+  if (resume) return { action: "resume", reference: resume.join(" ") || undefined };
+  const fork = flagValues(args, "--fork");
+  if (fork) return { action: "fork", reference: fork.join(" ") || undefined, name };
+  return { action: "new", name };
+}
+
+type CollectionRunCommand = {
+  params: CollectionRunParams;
+  reports?: ReportFormat[];
+  reportDir?: string;
 };
 
-// Modified main client creation logic
-const createClient = () => {
-  const bedrockClient = createBedrockClient();
-  if (bedrockClient) {
-    console.log("Using AWS Bedrock for Claude 3.5 Sonnet API");
-    return {
-      messages: {
-        create: async (params: any) => {
-          const response = await invokeBedrockClaude(
-            bedrockClient,
-            params.messages,
-            params.tools || []
-          );
-          return response;
-        },
-      },
-    };
-  }
-
-  console.log("Using direct Anthropic API");
-  return new Anthropic({
-    apiKey: process.env.ANTHROPIC_API_KEY || '',
+// Collection run from the command line, like Newman: --run-collection <id or file> with --folder <path>,
+// --environment <env>, --iteration-data <file>, --iteration-count <n>, --delay-request <ms>, --bail,
+// --var <key=value ...>, --reporters <json,junit,markdown> and --report-dir <dir>
+function resolveCollectionRunCommand(args: string[]): CollectionRunCommand | undefined {
+  const collection = flagValues(args, "--run-collection");
+  if (!collection) return undefined;
+  if (!collection[0]) {
+    throw new Error("--run-collection requires a collection ID or file");
+  }
+
+  const text = (flag: string) => flagValues(args, flag)?.join(" ") || undefined;
+  const integer = (flag: string, min: number) => {
+    const value = flagValues(args, flag)?.[0];
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+      throw new Error(`${flag} must be an integer of at least ${min}, got "${value}"`);
+    }
+    return parsed;
+  };
+
+  const reporters = flagValues(args, "--reporters")?.join(",").split(",").map((reporter) => reporter.trim()).filter(Boolean);
+  const unknown = reporters?.filter((reporter) => !reportFormats.includes(reporter as ReportFormat)) || [];
+  if (unknown.length) {
+    throw new Error(`Unknown reporter ${unknown.join(", ")}, expected: ${reportFormats.join(", ")}`);
+  }
+
+  const variables = (flagValues(args, "--var") || []).map((assignment) => {
+    const separator = assignment.indexOf("=");
+    if (separator < 1) {
+      throw new Error(`--var expects key=value, got "${assignment}"`);
+    }
+    return [assignment.slice(0, separator), assignment.slice(separator + 1)];
   });
-};
+
+  return {
+    params: {
+      collectionId: collection[0],
+      folder: text("--folder"),
+      environment: text("--environment"),
+      variables: variables.length ? Object.fromEntries(variables) : undefined,
+      iterationData: text("--iteration-data"),
+      iterationCount: integer("--iteration-count", 1),
+      delayRequestMs: integer("--delay-request", 0),
+      bail: flagValues(args, "--bail") ? true : undefined,
+    },
+    reports: reporters as ReportFormat[] | undefined,
+    reportDir: text("--report-dir"),
+  };
+}
+
+const runMode = resolveRunMode(process.argv.slice(2));
+const sessionCommand = resolveSessionCommand(process.argv.slice(2));
+const collectionRunCommand = resolveCollectionRunCommand(process.argv.slice(2));
+// Chat profile from --profile <name> or CHAT_PROFILE, a resumed session keeps its own otherwise
+const profileName = flagValues(process.argv.slice(2), "--profile")?.join(" ") || process.env.CHAT_PROFILE;
+
+// In stdio mode stdout carries the MCP protocol, so all diagnostics must go to stderr
+if (runMode === "stdio") {
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+  console.warn = console.error;
+}
 
 const messages: MessageParam[] = [];
-const client = createClient();
+// Created when the chat starts, the MCP server modes and collection runs need no model
+let llm: LlmClient;
+let promptCaching = false;
+let session: ChatSession | undefined;
+// Loaded when the chat starts, /profile, /model and /temperature change the settings mid-session
+let chatProfiles: ChatProfiles = { profiles: [] };
+let chatSettings: ChatSettings;
+const contextWindow = loadContextWindowConfig();
+// What the requests leave out of the history once it outgrew the budget
+let compactionState = createCompactionState();
+// Reported input size of the history up to the last answer, reset when the history changes
+let tokenBaseline: TokenBaseline | undefined;
+let modelPrices: Record<string, ModelPrice> = {};
+// Usage of the current user query, the session totals are kept in session.usage
+let queryUsage: SessionUsage = createSessionUsage();
+// Set while tool calls run, aborting it cancels them
+let runningToolCalls: AbortController | undefined;
+// Set while the model answers, aborting it stops the request
+let runningRequest: AbortController | undefined;
+
+// Budgets per user query, so a model that keeps calling tools cannot loop forever
+const agentLimits = {
+  maxTurns: readLimit("AGENT_MAX_TURNS", 10),
+  maxToolCalls: readLimit("AGENT_MAX_TOOL_CALLS", 25),
+};
 
 function exit() {
   console.log("Ok, bye!");
@@ -97,11 +251,15 @@ function exit() {
 }
 
 async function query() {
-  const query = await input({ message: "What would you like to do?" });
+  const query = await chatPrompt({
+    message: "What would you like to do?",
+    complete: (line) => completeChatCommand(line, chatProfiles),
+  });
   const trimmedQuery = query.trim();
   
+  // null ends the chat loop
   if (["quit", "exit"].includes(trimmedQuery.toLowerCase())) {
-    exit();
+    return null;
   }
   return trimmedQuery;
 }
@@ -110,195 +268,482 @@ async function callClaude(prompt: string | MessageParam[]) {
   if (Array.isArray(prompt)) {
     messages.push(...prompt);
   } else {
-    messages.push({
-      role: "user",
-      content: prompt,
-    });
-  }
-
-  return client.messages
-    .create({
-      model: process.env.AWS_ACCESS_KEY_ID ? 
-        "anthropic.claude-3-5-sonnet-20241022-v2:0" :
-        "claude-3-5-sonnet-latest",
-      temperature: 0.95,
-      max_tokens: 2048,
-      messages: messages,
-      tools: tools,
-    })
-    .then((response) => {
-      messages.push({ role: "assistant", content: response.content });
-      return response;
-    });
+    const lastMessage = messages[messages.length - 1];
+    if (lastMessage?.role === "user" && Array.isArray(lastMessage.content)) {
+      // Tool results of a query stopped by a budget are still pending, the new prompt joins them
+      lastMessage.content.push({ type: "text", text: prompt });
+    } else {
+      messages.push({
+        role: "user",
+        content: prompt,
+      });
+    }
+  }
+
+  const compaction = compactHistory(messages, chatSettings.tools, chatSettings.systemPrompt, contextWindow, compactionState, tokenBaseline);
+  if (compaction) {
+    tokenBaseline = undefined;
+    if (compaction.trimmedToolResults || compaction.droppedMessages) {
+      console.log(`[History compacted from about ${compaction.tokensBefore} to ${compaction.tokensAfter} tokens: ${compaction.trimmedToolResults} tool results trimmed, ${compaction.droppedMessages} messages dropped.]`);
+    }
+    if (compaction.tokensAfter > contextWindow.tokenBudget) {
+      console.log(`[The current request alone exceeds CONTEXT_TOKEN_BUDGET=${contextWindow.tokenBudget}, it may be rejected.]`);
+    }
+  }
+
+  runningRequest = new AbortController();
+  try {
+    return await streamAnswer(runningRequest.signal);
+  } finally {
+    runningRequest = undefined;
+  }
 }
 
-async function callTool(toolBlock: ToolUseBlock) {
-  const { name, id, input } = toolBlock;
-  console.log('Available functions:', Object.keys(functions));
-  console.log('Trying to call function:', name);
+async function streamAnswer(signal: AbortSignal) {
+  const stream = await llm.client.messages.create({
+    model: chatSettings.model,
+    temperature: chatSettings.temperature,
+    max_tokens: chatSettings.maxTokens,
+    ...addCacheBreakpoints({
+      ...(chatSettings.systemPrompt ? { system: chatSettings.systemPrompt } : {}),
+      messages: compactedMessages(messages, compactionState),
+      tools: chatSettings.tools,
+    }, promptCaching),
+    stream: true,
+  }, { signal });
+
+  // Print text as it arrives and announce tools as soon as Claude starts calling them
+  let printedText = false;
+  const response = await readMessageStream(stream, {
+    onText: (text) => {
+      printedText = true;
+      process.stdout.write(text);
+    },
+    onToolUseStart: (block) => {
+      if (printedText) {
+        process.stdout.write("\n");
+        printedText = false;
+      }
+      console.log(`[Claude is calling ${block.name}...]`);
+    },
+  });
+  if (printedText) {
+    process.stdout.write("\n");
+  }
 
-  const tool = tools.find((tool) => tool.name === name);
-  if (tool) {
-    const toolOutput = await functions[name](input);
-    return {
-      role: "user",
-      content: [
-        {
-          type: "tool_result",
-          tool_use_id: id,
-          content: toolOutput,
-        },
-      ],
-    } as MessageParam;
-  } else {
-    throw Error(`Tool ${name} does not exist`);
+  messages.push({ role: "assistant", content: response.content });
+  const usage = toTokenUsage(response.usage);
+  recordRequest(queryUsage, chatSettings.model, usage);
+  if (session?.usage) {
+    recordRequest(session.usage, chatSettings.model, usage);
   }
+  tokenBaseline = {
+    messageCount: messages.length,
+    tokens: usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens + usage.outputTokens,
+  };
+  return response;
 }
 
-async function processResponse(response: Anthropic.Messages.Message) {
-  const toolUseBlocks = response.content.filter<ToolUseBlock>(
-    (content) => content.type === "tool_use",
-  );
-
-  if (toolUseBlocks.length) {
-    const allToolResultPromises = toolUseBlocks.map(async (toolBlock) => {
-      return await callTool(toolBlock);
-    });
-    const allToolResults = await Promise.all(allToolResultPromises);
-
-    return await callClaude(allToolResults) //
-      .then(processResponse);
-  } else {
-    const textOutputs = response.content
-      .map((content) => (content.type === "text" ? content.text : null))
-      .filter(Boolean);
-    console.log(textOutputs.join("\n"));
+function toolResult(id: string, content: string | TextContent[], isError = false): ToolResultBlockParam {
+  return {
+    type: "tool_result",
+    tool_use_id: id,
+    ...(isError ? { is_error: true } : {}),
+    content,
+  };
+}
+
+// Applies the tool's approval policy, returns why the call must not run or undefined to run it
+async function approveToolCall(toolBlock: ToolUseBlock): Promise<string | undefined> {
+  const tool = toolRegistry.find((candidate) => candidate.name === toolBlock.name);
+  if (!tool) return undefined;
+
+  const policy = getApprovalPolicy(tool);
+  if (policy === "deny") {
+    console.log(`[${tool.name} is denied by the approval policy.]`);
+    return deniedMessage(tool.name);
+  }
+  if (policy === "confirm") {
+    let allowed = false;
+    try {
+      allowed = await confirm({ message: approvalQuestion("Claude", tool.name, toolBlock.input), default: false });
+    } catch (error) {
+      // Ctrl+C declines the call, the tool_use still needs its result
+      if (!(error instanceof ExitPromptError)) throw error;
+    }
+    if (!allowed) {
+      return declinedMessage(tool.name);
+    }
   }
+  return undefined;
 }
 
-// Add this utility function after the imports
-type ContentWrapper = {
-  content: Array<{
-    type: "text";
-    text: string;
-  }>;
-};
+// Never throws: unknown tools, invalid input, failures and timeouts all become error results,
+// so every tool_use block gets its tool_result and the history stays valid
+async function callTool(toolBlock: ToolUseBlock, signal: AbortSignal): Promise<ToolResultBlockParam> {
+  const { name, id, input } = toolBlock;
+  console.log('Trying to call function:', name);
+
+  // Only the tools of the current profile, earlier turns may have used others
+  const enabledTools = chatSettings.tools.map((tool) => tool.name);
+  if (!enabledTools.includes(name)) {
+    console.log(`Unknown tool ${name}, available tools:`, enabledTools);
+    return toolResult(id, `Tool ${name} is not available. Available tools: ${enabledTools.join(', ')}`, true);
+  }
 
-const wrapToolResponse = (result: any): ContentWrapper => {
+  // Validate with the same Zod schema the MCP server uses
+  const validation = z.object(zodSchemas[name]).safeParse(input);
+  if (!validation.success) {
+    console.log(`Invalid input for ${name}:`, validation.error.issues);
+    return toolResult(id, formatValidationError(name, validation.error), true);
+  }
+
+  try {
+    const tool = toolRegistry.find((candidate) => candidate.name === name)!;
+    const toolOutput = await toolExecutor.run(tool, validation.data, signal);
+    return toolResult(id, toolOutput.content, toolOutput.isError);
+  } catch (error) {
+    console.error(`Error calling ${name}:`, error);
+    return toolResult(id, `Error calling ${name}: ${error.message}`, true);
+  }
+}
+
+// Answers tool calls that are not executed, every tool_use block needs a tool_result in the history
+function rejectToolCalls(toolBlocks: ToolUseBlock[], reason: string): MessageParam {
   return {
-    content: result
+    role: "user",
+    content: toolBlocks.map((toolBlock) => toolResult(toolBlock.id, reason, true)),
   };
-};
+}
 
-async function main() {
-  // Create Express app
-  const app: Express = express();
-  app.use(express.json());
-  
-  // Only parse JSON for non-message endpoints
-  app.use((req, res, next) => {
-    if (req.path !== '/message') {
-      express.json()(req, res, next);
-    } else {
-      next();
-    }
-  });
+// Ctrl+C while tools run cancels them instead of ending the chat, returns false when nothing runs
+function cancelRunningToolCalls() {
+  if (!runningToolCalls || runningToolCalls.signal.aborted) {
+    return false;
+  }
+  console.log("\n[Cancelling the running tool calls, press Ctrl+C again to quit.]");
+  runningToolCalls.abort();
+  return true;
+}
 
-  // Set up SSE endpoint with multiple transports
-  const transports = new Map<string, SSEServerTransport>();
-
-  app.get("/sse", async (req, res) => {
-    const mcpServer = new McpServer({
-      name: "Postman Tools",
-      version: "1.0.0"
-    });
-    
-    // Register tools for this connection
-    for (const tool of tools) {
-      const func = functions[tool.name];
-      const schema = zodSchemas[tool.name];
-      if (func) {
-        mcpServer.tool(
-          tool.name,
-          tool.description || tool.name,
-          schema,
-          async (...args) => wrapToolResponse(await func(...args))
-        );
-      }
+// Ctrl+C while the model answers stops the answer, returns false when no request runs
+function cancelRunningRequest() {
+  if (!runningRequest || runningRequest.signal.aborted) {
+    return false;
+  }
+  console.log("\n[Cancelling the answer, press Ctrl+C again to quit.]");
+  runningRequest.abort();
+  return true;
+}
+
+async function processResponse(response: Anthropic.Messages.Message) {
+  let turns = 1;
+  let toolCalls = 0;
+
+  while (true) {
+    const toolUseBlocks = response.content.filter<ToolUseBlock>(
+      (content) => content.type === "tool_use",
+    );
+
+    switch (response.stop_reason) {
+      case "end_turn":
+      case "stop_sequence":
+        // Text answers have already been printed while streaming
+        return;
+      case "max_tokens":
+        console.log(`[The answer was cut off after ${response.usage.output_tokens} tokens (max_tokens).]`);
+        if (toolUseBlocks.length) {
+          messages.push(rejectToolCalls(toolUseBlocks, "The tool call was cut off by max_tokens and was not executed."));
+        }
+        return;
+      case "tool_use":
+        if (toolUseBlocks.length) break;
+        return;
+      default:
+        console.log(`[Claude stopped with unexpected stop reason ${response.stop_reason}.]`);
+        if (toolUseBlocks.length) {
+          messages.push(rejectToolCalls(toolUseBlocks, "The tool call was not executed."));
+        }
+        return;
     }
-    
-    const transport = new SSEServerTransport("/message", res);
-    await mcpServer.connect(transport);
-    
-    const sessionId = transport.sessionId;
-    console.log(`[SSE] New connection established: ${sessionId}`);
-    transports.set(sessionId, transport);
-
-    // Handle connection close and cleanup
-    req.on('close', async () => {
-      console.log(`[SSE] Connection closed: ${sessionId}`);
-      await mcpServer.close();
-      transports.delete(sessionId);
-      await mcpServer.close();
-    });
-  });
 
-  app.post("/message", async (req, res) => {
-    const sessionId = req.query.sessionId as string;
+    if (turns >= agentLimits.maxTurns) {
+      console.log(`[Stopped after ${turns} agent turns (AGENT_MAX_TURNS=${agentLimits.maxTurns}), the last tool calls were not executed.]`);
+      messages.push(rejectToolCalls(toolUseBlocks, "The agent turn limit was reached, the tool call was not executed."));
+      return;
+    }
 
-    const transport = transports.get(sessionId);
-    if (!transport) {
-      console.log(`[SSE] Error: No transport found for session ${sessionId}`);
-      res.status(400).json({ error: "No active transport" });
+    const remainingToolCalls = agentLimits.maxToolCalls - toolCalls;
+    if (remainingToolCalls <= 0) {
+      console.log(`[Stopped after ${toolCalls} tool calls (AGENT_MAX_TOOL_CALLS=${agentLimits.maxToolCalls}), the last tool calls were not executed.]`);
+      messages.push(rejectToolCalls(toolUseBlocks, "The tool call budget was exhausted, the tool call was not executed."));
       return;
     }
-    
-    try {
-      // log incoming message
-      //console.log(`[SSE] Received message for ${sessionId}:`, req.body);
-      await transport.handlePostMessage(req, res, req.body);
-      
-    } catch (error) {
-      console.error(`[SSE] Error handling message for ${sessionId}:`, error);
-      if (!res.headersSent) {
-        res.status(500).json({ error: "Error handling message" });
-      }
+
+    // Runs the calls that still fit into the budget and lets Claude answer with what it has
+    const allowedBlocks = toolUseBlocks.slice(0, remainingToolCalls);
+    const skippedBlocks = toolUseBlocks.slice(remainingToolCalls);
+    toolCalls += allowedBlocks.length;
+
+    // One question at a time, inquirer cannot show several prompts at once
+    const rejections: (string | undefined)[] = [];
+    for (const toolBlock of allowedBlocks) {
+      rejections.push(await approveToolCall(toolBlock));
     }
-  });
 
-  // Start the Express server
-  const PORT = process.env.PORT || 3001;
-  const server = app.listen(PORT, () => {
-    console.log(`MCP Server running on port ${PORT}`);
-  });
+    // The executor limits how many calls run at once, Promise.all keeps the tool_use order
+    runningToolCalls = new AbortController();
+    const { signal } = runningToolCalls;
+    let results: ToolResultBlockParam[];
+    try {
+      results = await Promise.all(allowedBlocks.map((toolBlock, index) => {
+        const rejection = rejections[index];
+        return rejection ? toolResult(toolBlock.id, rejection, true) : callTool(toolBlock, signal);
+      }));
+    } finally {
+      runningToolCalls = undefined;
+    }
+    if (session?.usage) {
+      const sessionUsage = session.usage;
+      results.forEach((result, index) => {
+        recordToolResult(sessionUsage, allowedBlocks[index].name, estimateMessageTokens({ role: "user", content: [result] }));
+      });
+    }
+    if (skippedBlocks.length) {
+      console.log(`[Tool call budget exhausted (AGENT_MAX_TOOL_CALLS=${agentLimits.maxToolCalls}), skipped ${skippedBlocks.map((block) => block.name).join(", ")}.]`);
+      results.push(...skippedBlocks.map((toolBlock) => toolResult(
+        toolBlock.id,
+        "The tool call budget for this request is exhausted, answer with the information you already have.",
+        true,
+      )));
+    }
 
-  // Handle server shutdown
-  process.on('SIGTERM', async () => {
-    console.log('Shutting down server...');
-    server.close();
-    process.exit(0);
-  });
+    // All results go back in one user message, in the order of the tool_use blocks
+    const toolResults: MessageParam = { role: "user", content: results };
+    if (signal.aborted) {
+      // The results stay in the history, the next prompt joins them
+      console.log("[Tool calls cancelled, Claude was not asked to continue.]");
+      messages.push(toolResults);
+      return;
+    }
+    response = await callClaude([toolResults]);
+    turns++;
+  }
+}
 
-  // Continue with existing CLI loop
+async function chatLoop() {
   while (true) {
     try {
       const userInput = await query();
+      if (userInput === null) {
+        return;
+      }
       if (userInput === "") {
         console.log("Please enter a message.");
         continue;
       }
+      if (isChatCommand(userInput)) {
+        if (await runChatCommand(userInput, chatCommandContext()) === "exit") {
+          return;
+        }
+        continue;
+      }
       
-      const response = await callClaude(userInput);
-      if (response) {
-        await processResponse(response);
+      queryUsage = createSessionUsage();
+      try {
+        const response = await callClaude(userInput);
+        if (response) {
+          await processResponse(response);
+        }
+      } finally {
+        printQueryUsage();
+        await saveChatSession();
       }
     } catch (error) {
+      // Ctrl+C inside an inquirer prompt, or stdin was closed
+      if (error instanceof ExitPromptError) {
+        return;
+      }
+      // The answer was cancelled with Ctrl+C
+      if (error instanceof Anthropic.APIUserAbortError || error.name === "AbortError") {
+        continue;
+      }
       console.error('Error communicating with Claude:', error.message);
       continue;
     }
   }
 }
 
+// Token counts and cost of the last answer, summed over all its model calls
+function printQueryUsage() {
+  if (!queryUsage.requests) return;
+  const usage = Object.values(queryUsage.byModel).reduce(addTokenUsage, emptyTokenUsage());
+  const total = session?.usage ? `, session ${formatCost(sessionCost(session.usage, modelPrices))}` : "";
+  const calls = queryUsage.requests > 1 ? ` in ${queryUsage.requests} calls` : "";
+  console.log(`[${formatTokenUsage(usage)}${calls}, ${formatCost(sessionCost(queryUsage, modelPrices))}${total}]`);
+}
+
+function printUsageSummary() {
+  if (session?.usage?.requests) {
+    console.log(formatUsageSummary(session.usage, modelPrices));
+  }
+}
+
+function chatCommandContext(): ChatCommandContext {
+  return {
+    messages,
+    settings: chatSettings,
+    profiles: chatProfiles,
+    defaultModel: llm.model,
+    session,
+    saveSession: saveChatSession,
+    printUsageSummary: () => printUsageSummary(),
+    resetSession: async () => {
+      printUsageSummary();
+      await saveChatSession();
+      messages.length = 0;
+      tokenBaseline = undefined;
+      compactionState = createCompactionState();
+      session = await openChatSession({ action: "new" });
+      return session;
+    },
+  };
+}
+
+async function saveChatSession() {
+  if (!session || !messages.length) return;
+  session.profile = chatSettings.profile;
+  try {
+    await saveSession(session);
+  } catch (error) {
+    console.error(`Could not save chat session ${session.id}:`, error.message);
+  }
+}
+
+// Starts a new chat session or continues a saved one, the session shares the messages array
+async function openChatSession(command: SessionCommand): Promise<ChatSession> {
+  let opened: ChatSession;
+  if (command.action === "resume") {
+    opened = await loadSession(command.reference);
+    console.log(`Resuming chat session "${opened.name}" (${opened.id}, ${opened.messages.length} messages)`);
+  } else if (command.action === "fork") {
+    opened = await forkSession(command.reference, command.name);
+    console.log(`Forked chat session "${opened.name}" (${opened.id}) from ${opened.forkedFrom}`);
+  } else {
+    opened = createSession(command.action === "new" ? command.name : undefined);
+    console.log(`Chat session "${opened.name}" is saved to ${getSessionsDir()}`);
+  }
+
+  messages.push(...opened.messages);
+  opened.messages = messages;
+  opened.usage ??= createSessionUsage();
+  return opened;
+}
+
+// Commands that manage saved sessions and exit without starting the chat or a server
+async function runSessionCommand(command: SessionCommand) {
+  switch (command.action) {
+    case "list": {
+      const sessions = await listSessions();
+      if (!sessions.length) {
+        console.log(`No saved chat sessions in ${getSessionsDir()}`);
+        return;
+      }
+      sessions.forEach((saved) => {
+        const fork = saved.forkedFrom ? `, forked from ${saved.forkedFrom}` : "";
+        console.log(`${saved.id}  ${saved.name}  (${saved.messageCount} messages, updated ${saved.updatedAt}${fork})`);
+      });
+      return;
+    }
+    case "rename": {
+      const renamed = await renameSession(command.reference, command.name);
+      console.log(`Renamed chat session ${renamed.id} to "${renamed.name}"`);
+      return;
+    }
+    case "delete": {
+      const deleted = await deleteSession(command.reference);
+      console.log(`Deleted chat session "${deleted.name}" (${deleted.id})`);
+      return;
+    }
+  }
+}
+
+// Runs a collection and exits, with exit code 1 when a request or test failed, e.g. for CI
+async function runCollectionCommand({ params, reports, reportDir }: CollectionRunCommand) {
+  const controller = new AbortController();
+  // Ctrl+C stops the run, the requests sent so far are still reported
+  process.once("SIGINT", () => controller.abort());
+
+  const { run, reportFiles } = await startCollectionRun(params, { signal: controller.signal }, { reports, reportDir, fileAccess: "any" });
+  console.log(formatRunMarkdown(run));
+  reportFiles.forEach((file) => console.log(`Report written to ${file}`));
+  if (runStats(run).failedRequests || run.stopped) {
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  if (collectionRunCommand) {
+    await runCollectionCommand(collectionRunCommand);
+    return;
+  }
+  if (["list", "rename", "delete"].includes(sessionCommand.action)) {
+    await runSessionCommand(sessionCommand);
+    return;
+  }
+
+  const chatEnabled = runMode === "chat" || runMode === "both";
+  if (!chatEnabled && (sessionCommand.action === "resume" || sessionCommand.action === "fork")) {
+    throw new Error(`--${sessionCommand.action} needs the console chat, it is not available in ${runMode} mode`);
+  }
+
+  if (runMode === "stdio") {
+    await runStdioServer();
+    return;
+  }
+
+  let httpServer: McpHttpServer | undefined;
+  if (runMode === "server" || runMode === "both") {
+    httpServer = await startMcpHttpServer(process.env.PORT || 3001);
+  }
+
+  // Handle shutdown, closes every open MCP session before exiting
+  let shuttingDown = false;
+  const shutdown = async (reason: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    runningRequest?.abort();
+    printUsageSummary();
+    console.log(`Shutting down (${reason})...`);
+    await httpServer?.close();
+    exit();
+  };
+  process.on('SIGINT', () => {
+    if (!cancelRunningToolCalls() && !cancelRunningRequest()) shutdown('SIGINT');
+  });
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  if (chatEnabled) {
+    llm = createLlmClient();
+    promptCaching = supportsPromptCaching(llm.provider);
+    chatSettings = createChatSettings(llm.model);
+    chatProfiles = loadChatProfiles();
+    modelPrices = loadModelPrices();
+    session = await openChatSession(sessionCommand);
+    let startProfile = profileName || session.profile || chatProfiles.defaultProfile;
+    if (!profileName && session.profile && !chatProfiles.profiles.some((profile) => profile.name === session?.profile)) {
+      console.log(`The profile ${session.profile} of this session no longer exists, using the default settings`);
+      startProfile = chatProfiles.defaultProfile;
+    }
+    if (startProfile) {
+      chatSettings = createChatSettings(llm.model, findChatProfile(chatProfiles, startProfile));
+      console.log(`Using chat profile ${startProfile}`);
+    }
+    await chatLoop();
+    await shutdown('chat ended');
+  }
+}
+
 // Start the application with error handling
 main().catch(error => {
   console.error('Fatal error:', error);
@@ -0,0 +1,86 @@
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  MessageCreateParamsNonStreaming,
+  MessageCreateParamsStreaming,
+  RawMessageStreamEvent,
+} from "@anthropic-ai/sdk/resources/messages.mjs";
+
+import {
+  DEFAULT_BEDROCK_MODEL,
+  createBedrockMessagesClient,
+  createBedrockRuntimeClient,
+} from "./bedrock-client";
+import { createOpenAICompatibleClient } from "./openai-client";
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-3-5-sonnet-latest";
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// The part of the Anthropic client the chat uses, implemented by every provider adapter
+export type MessagesClient = {
+  messages: {
+    create(params: MessageCreateParamsNonStreaming, options?: Anthropic.RequestOptions): Promise<Anthropic.Messages.Message>;
+    create(params: MessageCreateParamsStreaming, options?: Anthropic.RequestOptions): Promise<AsyncIterable<RawMessageStreamEvent>>;
+  };
+};
+
+export const llmProviders = ["anthropic", "bedrock", "openai"] as const;
+export type LlmProvider = typeof llmProviders[number];
+
+export type LlmClient = {
+  provider: LlmProvider;
+  client: MessagesClient;
+  model: string;
+};
+
+const createOpenAILlmClient = (): LlmClient => {
+  const model = process.env.OPENAI_MODEL;
+  if (!model) {
+    throw new Error("LLM_PROVIDER=openai requires OPENAI_MODEL, e.g. gpt-4o or llama3.1 for Ollama");
+  }
+  const baseUrl = process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL;
+  // The OpenAI key (also used for DALL-E) is only sent to OpenAI itself, other servers get LLM_API_KEY
+  const apiKey = process.env.LLM_API_KEY || (baseUrl === DEFAULT_OPENAI_BASE_URL ? process.env.OPENAI_API_KEY : undefined);
+  console.log(`Using OpenAI-compatible API at ${baseUrl} with model ${model}`);
+  return {
+    provider: "openai",
+    client: createOpenAICompatibleClient({ baseUrl, apiKey }),
+    model,
+  };
+};
+
+// LLM_PROVIDER selects the backend, without it Bedrock is used when AWS credentials
+// are configured and the direct Anthropic API otherwise
+export const createLlmClient = (): LlmClient => {
+  const provider = process.env.LLM_PROVIDER;
+  if (provider && !llmProviders.includes(provider as LlmProvider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}", expected one of: ${llmProviders.join(", ")}`);
+  }
+
+  if (provider === "openai") {
+    return createOpenAILlmClient();
+  }
+
+  const bedrockClient = provider === "anthropic" ? null : createBedrockRuntimeClient();
+  if (provider === "bedrock" && !bedrockClient) {
+    throw new Error("LLM_PROVIDER=bedrock requires AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and AWS_REGION");
+  }
+  if (bedrockClient) {
+    const model = process.env.BEDROCK_MODEL_ID || DEFAULT_BEDROCK_MODEL;
+    console.log(`Using AWS Bedrock with model ${model}`);
+    return {
+      provider: "bedrock",
+      client: createBedrockMessagesClient(bedrockClient),
+      model,
+    };
+  }
+
+  const model = process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL;
+  console.log(`Using direct Anthropic API with model ${model}`);
+  return {
+    provider: "anthropic",
+    client: new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY || '',
+    }),
+    model,
+  };
+};
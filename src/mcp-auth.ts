@@ -0,0 +1,166 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { Request, RequestHandler } from "express";
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from "jose";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+import { AnyToolDefinition } from "./tool-registry";
+
+// Scope granting access to every tool, other tool scopes are tools:<group> and tools:<tool name>
+export const ALL_TOOLS_SCOPE = "tools:*";
+
+type StaticToken = {
+  digest: Buffer;
+  clientId: string;
+  scopes: string[];
+};
+
+export type McpAuthConfig = {
+  staticTokens: StaticToken[];
+  oauth?: {
+    issuer: string;
+    jwksUrl: string;
+    audience: string;
+  };
+  resourceUrl?: string;
+};
+
+const digest = (token: string) => createHash("sha256").update(token).digest();
+
+// Parses MCP_AUTH_TOKENS, e.g. "secret1=tools:*;secret2=tools:postman tools:get_weather"
+const parseStaticTokens = (value: string): StaticToken[] => {
+  return value
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf("=");
+      const token = separator === -1 ? entry : entry.slice(0, separator);
+      const scopes = separator === -1 ? "" : entry.slice(separator + 1);
+      if (!token) {
+        throw new Error(`MCP_AUTH_TOKENS entry ${index + 1} has no token`);
+      }
+      return {
+        digest: digest(token),
+        clientId: `static-token-${index + 1}`,
+        scopes: scopes.split(/\s+/).filter(Boolean),
+      };
+    });
+};
+
+// Reads the authentication settings from the environment, null means the endpoints are open
+export const loadMcpAuthConfig = (): McpAuthConfig | null => {
+  const staticTokens = parseStaticTokens(process.env.MCP_AUTH_TOKENS || "");
+  const issuer = process.env.MCP_AUTH_ISSUER;
+  const resourceUrl = process.env.MCP_RESOURCE_URL;
+
+  let oauth: McpAuthConfig["oauth"];
+  if (issuer) {
+    const audience = process.env.MCP_AUTH_AUDIENCE || resourceUrl;
+    if (!audience) {
+      throw new Error("MCP_AUTH_ISSUER requires MCP_AUTH_AUDIENCE or MCP_RESOURCE_URL to validate the token audience");
+    }
+    oauth = {
+      issuer,
+      jwksUrl: process.env.MCP_AUTH_JWKS_URL || `${issuer.replace(/\/$/, "")}/.well-known/jwks.json`,
+      audience,
+    };
+  }
+
+  if (!staticTokens.length && !oauth) {
+    return null;
+  }
+  return { staticTokens, oauth, resourceUrl };
+};
+
+// Scopes come as a space separated "scope" claim (RFC 9068) or as an "scp" array
+const scopesFromClaims = (payload: JWTPayload): string[] => {
+  if (typeof payload.scope === "string") {
+    return payload.scope.split(/\s+/).filter(Boolean);
+  }
+  if (Array.isArray(payload.scp)) {
+    return payload.scp.filter((scope): scope is string => typeof scope === "string");
+  }
+  return [];
+};
+
+// Verifies static tokens first and falls back to JWT validation against the configured issuer
+export const createTokenVerifier = (config: McpAuthConfig): OAuthTokenVerifier => {
+  const jwks = config.oauth ? createRemoteJWKSet(new URL(config.oauth.jwksUrl)) : undefined;
+
+  return {
+    verifyAccessToken: async (token: string): Promise<AuthInfo> => {
+      const tokenDigest = digest(token);
+      const staticToken = config.staticTokens.find((candidate) => timingSafeEqual(candidate.digest, tokenDigest));
+      if (staticToken) {
+        return {
+          token,
+          clientId: staticToken.clientId,
+          scopes: staticToken.scopes,
+          // Static tokens do not expire, the bearer middleware still requires an expiry
+          expiresAt: Math.floor(Date.now() / 1000) + 3600,
+        };
+      }
+
+      if (!config.oauth || !jwks) {
+        throw new InvalidTokenError("Unknown token");
+      }
+
+      try {
+        const { payload } = await jwtVerify(token, jwks, {
+          issuer: config.oauth.issuer,
+          audience: config.oauth.audience,
+        });
+        return {
+          token,
+          clientId: String(payload.client_id || payload.azp || payload.sub || "unknown"),
+          scopes: scopesFromClaims(payload),
+          expiresAt: payload.exp,
+        };
+      } catch (error) {
+        throw new InvalidTokenError(`Invalid token: ${error.message}`);
+      }
+    },
+  };
+};
+
+const RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+// URL of the OAuth protected resource metadata (RFC 9728) announced in WWW-Authenticate headers
+export const getResourceMetadataUrl = (config: McpAuthConfig) => {
+  if (!config.resourceUrl) return undefined;
+  const url = new URL(config.resourceUrl);
+  return `${url.origin}${RESOURCE_METADATA_PATH}${url.pathname === "/" ? "" : url.pathname}`;
+};
+
+// RFC 9728 requires the resource. Without MCP_RESOURCE_URL it is derived from the metadata URL the
+// client asked for: /.well-known/oauth-protected-resource/mcp describes /mcp on the same host,
+// the bare metadata URL the Streamable HTTP endpoint. Behind a proxy, set MCP_RESOURCE_URL.
+const requestedResource = (req: Request) =>
+  `${req.protocol}://${req.get("host")}${req.path.slice(RESOURCE_METADATA_PATH.length) || "/mcp"}`;
+
+// Protected resource metadata telling MCP clients which authorization server to use
+export const createResourceMetadataHandler = (config: McpAuthConfig, scopesSupported: string[]): RequestHandler => {
+  return (req, res) => {
+    res.json({
+      resource: config.resourceUrl || requestedResource(req),
+      authorization_servers: config.oauth ? [config.oauth.issuer] : [],
+      scopes_supported: scopesSupported,
+      bearer_methods_supported: ["header"],
+    });
+  };
+};
+
+export const createAuthMiddleware = (config: McpAuthConfig): RequestHandler => {
+  return requireBearerAuth({
+    verifier: createTokenVerifier(config),
+    resourceMetadataUrl: getResourceMetadataUrl(config),
+  });
+};
+
+export const isToolAllowed = (tool: AnyToolDefinition, scopes: string[]) =>
+  scopes.includes(ALL_TOOLS_SCOPE) ||
+  scopes.includes(`tools:${tool.group}`) ||
+  scopes.includes(`tools:${tool.name}`);
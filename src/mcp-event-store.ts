@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto';
+import { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+type StoredEvent = {
+  streamId: string;
+  message: JSONRPCMessage;
+};
+
+// In-memory event store for resumability of the Streamable HTTP transport.
+// Clients that reconnect with a Last-Event-ID header get the missed messages replayed.
+// One store is created per session, so its events are dropped together with the session.
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<string, StoredEvent>();
+
+  constructor(private maxEvents = Number(process.env.MCP_MAX_STORED_EVENTS) || 1000) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = `${streamId}_${Date.now()}_${randomUUID()}`;
+    this.events.set(eventId, { streamId, message });
+
+    // Map keeps insertion order, so the first key is always the oldest event
+    if (this.events.size > this.maxEvents) {
+      const oldestEventId = this.events.keys().next().value;
+      this.events.delete(oldestEventId);
+    }
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && streamId === lastEvent.streamId) {
+        await send(eventId, message);
+      }
+    }
+    return lastEvent.streamId;
+  }
+}
@@ -0,0 +1,346 @@
+import { randomUUID } from "crypto";
+import { Server } from "http";
+import express, { Express } from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import { toolRegistry } from "./tools";
+import { AnyToolDefinition, registerMcpTools, selectTools, toolGroups } from "./tool-registry";
+import { InMemoryEventStore } from "./mcp-event-store";
+import { createMcpApprovalCheck } from "./tool-approval";
+import { toolExecutor } from "./tool-executor";
+import {
+  ALL_TOOLS_SCOPE,
+  createAuthMiddleware,
+  createResourceMetadataHandler,
+  isToolAllowed,
+  loadMcpAuthConfig,
+} from "./mcp-auth";
+
+type McpSession<T> = {
+  mcpServer: McpServer;
+  transport: T;
+  clientId?: string; // Authenticated client that opened the session
+};
+
+export type McpHttpServer = {
+  close: () => Promise<void>;
+};
+
+// Accepts "a,b" as well as repeated query parameters
+const splitList = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === "string")
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+// Server-side tool profiles from MCP_TOOL_PROFILES, e.g. "postman-only=postman;explorer=postman,catalog,get_weather"
+const loadToolProfiles = (): Record<string, string[]> => {
+  const profiles: Record<string, string[]> = {};
+  for (const entry of (process.env.MCP_TOOL_PROFILES || "").split(";")) {
+    const [name, selectors] = entry.split("=").map((part) => part.trim());
+    if (!name) continue;
+    profiles[name] = splitList(selectors);
+  }
+  return profiles;
+};
+
+// Tools of a session: the requested groups and tools, or the requested (or default) profile,
+// narrowed down to what the token's scopes allow. Throws on unknown profiles, groups or tools.
+export const resolveSessionTools = (
+  query: Record<string, unknown>,
+  scopes: string[] = [ALL_TOOLS_SCOPE]
+): AnyToolDefinition[] => {
+  let selectors = [...splitList(query.groups), ...splitList(query.tools)];
+
+  if (!selectors.length) {
+    const profileName = typeof query.profile === "string" ? query.profile : process.env.MCP_DEFAULT_TOOL_PROFILE;
+    if (profileName) {
+      const profile = loadToolProfiles()[profileName];
+      if (!profile) {
+        throw new Error(`Unknown tool profile: ${profileName}`);
+      }
+      selectors = profile;
+    }
+  }
+
+  const requestedTools = selectors.length ? selectTools(toolRegistry, selectors) : toolRegistry;
+  return requestedTools.filter((tool) => isToolAllowed(tool, scopes));
+};
+
+// Creates an MCP server, one per client session, with the given tools registered
+export const createMcpServer = (tools: AnyToolDefinition[] = toolRegistry) => {
+  const mcpServer = new McpServer({
+    name: "Postman Tools",
+    version: "1.0.0"
+  });
+  registerMcpTools(mcpServer, tools, {
+    check: createMcpApprovalCheck(mcpServer),
+    run: toolExecutor.run,
+  });
+  console.log(`MCP session tools: ${tools.map((tool) => tool.name).join(", ") || "(none)"}`);
+  return mcpServer;
+};
+
+// Only the client that opened a session may use it
+const isSessionOwner = (session: McpSession<unknown>, req: express.Request) =>
+  session.clientId === req.auth?.clientId;
+
+// Serves the tools over stdio for desktop MCP clients, no HTTP listener and no CLI chat
+export const runStdioServer = async () => {
+  const mcpServer = createMcpServer(resolveSessionTools({}));
+  const transport = new StdioServerTransport();
+  await mcpServer.connect(transport);
+  console.log("MCP Server running on stdio");
+
+  process.stdin.on("close", async () => {
+    await mcpServer.close();
+    process.exit(0);
+  });
+};
+
+// Starts the HTTP MCP server, the returned handle closes every open session and the listener
+export const startMcpHttpServer = async (port: number | string): Promise<McpHttpServer> => {
+  // Create Express app
+  const app: Express = express();
+  app.use(express.json());
+  
+  // Only parse JSON for non-message endpoints
+  app.use((req, res, next) => {
+    if (req.path !== '/message') {
+      express.json()(req, res, next);
+    } else {
+      next();
+    }
+  });
+
+  // Bearer token authentication, the endpoints stay open if nothing is configured
+  const authConfig = loadMcpAuthConfig();
+  let requireAuth: express.RequestHandler = (req, res, next) => next();
+  if (authConfig) {
+    requireAuth = createAuthMiddleware(authConfig);
+    const scopesSupported = [
+      ALL_TOOLS_SCOPE,
+      ...toolGroups.map((group) => `tools:${group}`),
+      ...toolRegistry.map((tool) => `tools:${tool.name}`),
+    ];
+    app.get(
+      ["/.well-known/oauth-protected-resource", "/.well-known/oauth-protected-resource/*"],
+      createResourceMetadataHandler(authConfig, scopesSupported)
+    );
+    console.log("MCP HTTP endpoints require a bearer token");
+  } else {
+    console.warn("Warning: MCP HTTP endpoints are not protected, set MCP_AUTH_TOKENS or MCP_AUTH_ISSUER to require a bearer token");
+  }
+
+  const transports = new Map<string, McpSession<SSEServerTransport>>();
+  const streamableTransports = new Map<string, McpSession<StreamableHTTPServerTransport>>();
+
+  // Set up SSE endpoint with multiple transports
+
+  app.get("/sse", requireAuth, async (req, res) => {
+    // Register the requested tools the token's scopes allow for this connection
+    let sessionTools: AnyToolDefinition[];
+    try {
+      sessionTools = resolveSessionTools(req.query, req.auth?.scopes);
+    } catch (error) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    const mcpServer = createMcpServer(sessionTools);
+
+    const transport = new SSEServerTransport("/message", res);
+    await mcpServer.connect(transport);
+    
+    const sessionId = transport.sessionId;
+    console.log(`[SSE] New connection established: ${sessionId}`);
+    transports.set(sessionId, { mcpServer, transport, clientId: req.auth?.clientId });
+
+    // Handle connection close and cleanup
+    req.on('close', async () => {
+      console.log(`[SSE] Connection closed: ${sessionId}`);
+      transports.delete(sessionId);
+      await mcpServer.close();
+    });
+  });
+
+  app.post("/message", requireAuth, async (req, res) => {
+    const sessionId = req.query.sessionId as string;
+
+    const session = transports.get(sessionId);
+    if (!session) {
+      console.log(`[SSE] Error: No transport found for session ${sessionId}`);
+      res.status(400).json({ error: "No active transport" });
+      return;
+    }
+    if (!isSessionOwner(session, req)) {
+      res.status(403).json({ error: "Session belongs to another client" });
+      return;
+    }
+    const { transport } = session;
+    
+    try {
+      // log incoming message
+      //console.log(`[SSE] Received message for ${sessionId}:`, req.body);
+      await transport.handlePostMessage(req, res, req.body);
+      
+    } catch (error) {
+      console.error(`[SSE] Error handling message for ${sessionId}:`, error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Error handling message" });
+      }
+    }
+  });
+
+  // Streamable HTTP endpoint, runs side by side with the deprecated SSE endpoints
+  app.post("/mcp", requireAuth, async (req, res) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? streamableTransports.get(sessionId) : undefined;
+    if (session && !isSessionOwner(session, req)) {
+      res.status(403).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: "Session belongs to another client" },
+        id: null,
+      });
+      return;
+    }
+    let transport = session?.transport;
+
+    if (!transport) {
+      // Unknown or terminated sessions get a 404 so the client starts a new one
+      if (sessionId) {
+        console.log(`[MCP] Error: No transport found for session ${sessionId}`);
+        res.status(404).json({
+          jsonrpc: "2.0",
+          error: { code: -32001, message: "Session not found" },
+          id: null,
+        });
+        return;
+      }
+      // Only an initialize request may open a new session
+      if (!isInitializeRequest(req.body)) {
+        res.status(400).json({
+          jsonrpc: "2.0",
+          error: { code: -32000, message: "Bad Request: No valid session ID provided" },
+          id: null,
+        });
+        return;
+      }
+
+      let sessionTools: AnyToolDefinition[];
+      try {
+        sessionTools = resolveSessionTools(req.query, req.auth?.scopes);
+      } catch (error) {
+        res.status(400).json({
+          jsonrpc: "2.0",
+          error: { code: -32602, message: error.message },
+          id: null,
+        });
+        return;
+      }
+
+      const mcpServer = createMcpServer(sessionTools);
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new InMemoryEventStore(), // Enables resumability via Last-Event-ID
+        onsessioninitialized: (newSessionId) => {
+          console.log(`[MCP] New session initialized: ${newSessionId}`);
+          streamableTransports.set(newSessionId, { mcpServer, transport: newTransport, clientId: req.auth?.clientId });
+        },
+      });
+
+      // Must be set before connecting, the server chains its own close handler
+      newTransport.onclose = () => {
+        const closedSessionId = newTransport.sessionId;
+        if (closedSessionId) {
+          console.log(`[MCP] Session closed: ${closedSessionId}`);
+          streamableTransports.delete(closedSessionId);
+        }
+      };
+
+      await mcpServer.connect(newTransport);
+      transport = newTransport;
+    }
+
+    try {
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error(`[MCP] Error handling request for ${sessionId}:`, error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: "2.0",
+          error: { code: -32603, message: "Internal server error" },
+          id: null,
+        });
+      }
+    }
+  });
+
+  // GET opens (or resumes) the server-to-client stream, DELETE terminates the session
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (!sessionId) {
+      res.status(400).send("Missing session ID");
+      return;
+    }
+    const session = streamableTransports.get(sessionId);
+    if (!session) {
+      res.status(404).send("Session not found");
+      return;
+    }
+    if (!isSessionOwner(session, req)) {
+      res.status(403).send("Session belongs to another client");
+      return;
+    }
+    const { transport } = session;
+
+    if (req.method === "GET" && req.headers["last-event-id"]) {
+      console.log(`[MCP] Client resuming session ${sessionId} after event ${req.headers["last-event-id"]}`);
+    }
+    if (req.method === "DELETE") {
+      console.log(`[MCP] Client requested termination of session ${sessionId}`);
+    }
+
+    try {
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error(`[MCP] Error handling ${req.method} for ${sessionId}:`, error);
+      if (!res.headersSent) {
+        res.status(500).send("Error handling session request");
+      }
+    }
+  };
+
+  app.get("/mcp", requireAuth, handleSessionRequest);
+  app.delete("/mcp", requireAuth, handleSessionRequest);
+
+  // Start the Express server
+  const server = await new Promise<Server>((resolve, reject) => {
+    const httpServer = app.listen(port, () => resolve(httpServer));
+    httpServer.on("error", reject);
+  });
+  console.log(`MCP Server running on port ${port}`);
+
+  return {
+    close: async () => {
+      const sessions = [...transports.values(), ...streamableTransports.values()];
+      console.log(`Closing ${sessions.length} MCP session(s)...`);
+      transports.clear();
+      streamableTransports.clear();
+
+      // Closing the server also closes its transport
+      await Promise.allSettled(sessions.map(({ mcpServer }) => mcpServer.close()));
+
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    },
+  };
+};
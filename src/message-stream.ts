@@ -0,0 +1,81 @@
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  RawMessageStreamEvent,
+  ToolUseBlock,
+} from "@anthropic-ai/sdk/resources/messages.mjs";
+
+export type StreamHandlers = {
+  onText?: (text: string) => void;
+  onToolUseStart?: (block: ToolUseBlock) => void;
+};
+
+// A stream cut off by max_tokens ends tool inputs mid-JSON. The block then gets an empty input,
+// the stop reason tells the caller not to run it.
+const parseToolInput = (json?: string) => {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Assembles streamed events into the final message, the same one messages.create would return.
+// Works for the direct API as well as for Bedrock, both send the Anthropic event format.
+export const readMessageStream = async (
+  events: AsyncIterable<RawMessageStreamEvent>,
+  handlers: StreamHandlers = {}
+): Promise<Anthropic.Messages.Message> => {
+  let message: Anthropic.Messages.Message | undefined;
+  // Tool inputs arrive as partial JSON strings, they are parsed once the block is complete
+  const partialJson = new Map<number, string>();
+
+  for await (const event of events) {
+    if (event.type === "message_start") {
+      message = { ...event.message, content: [] };
+      continue;
+    }
+    if (!message) {
+      throw new Error(`Received ${event.type} before message_start`);
+    }
+
+    switch (event.type) {
+      case "content_block_start": {
+        message.content[event.index] = { ...event.content_block };
+        if (event.content_block.type === "tool_use") {
+          partialJson.set(event.index, "");
+          handlers.onToolUseStart?.(event.content_block);
+        }
+        break;
+      }
+      case "content_block_delta": {
+        const block = message.content[event.index];
+        if (event.delta.type === "text_delta" && block?.type === "text") {
+          block.text += event.delta.text;
+          handlers.onText?.(event.delta.text);
+        } else if (event.delta.type === "input_json_delta") {
+          partialJson.set(event.index, (partialJson.get(event.index) || "") + event.delta.partial_json);
+        }
+        break;
+      }
+      case "content_block_stop": {
+        const block = message.content[event.index];
+        if (block?.type === "tool_use") {
+          block.input = parseToolInput(partialJson.get(event.index));
+        }
+        break;
+      }
+      case "message_delta": {
+        message.stop_reason = event.delta.stop_reason;
+        message.stop_sequence = event.delta.stop_sequence;
+        // Some providers only report input tokens at the end of the stream
+        message.usage = { ...message.usage, ...event.usage };
+        break;
+      }
+    }
+  }
+
+  if (!message) {
+    throw new Error("Stream ended without a message");
+  }
+  return message;
+};
@@ -0,0 +1,375 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { randomUUID } from "crypto";
+import {
+  ContentBlock,
+  MessageCreateParamsBase,
+  MessageCreateParamsNonStreaming,
+  MessageCreateParamsStreaming,
+  MessageParam,
+  RawMessageStreamEvent,
+} from "@anthropic-ai/sdk/resources/messages.mjs";
+
+import { ApiUsage } from "./usage-tracker";
+
+// Chat completions types, only the parts the adapter uses
+
+type OpenAIToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+type OpenAIMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+type OpenAIUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+};
+
+type OpenAIChatCompletion = {
+  id: string;
+  model: string;
+  choices: Array<{
+    message: { content: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage;
+};
+
+type OpenAIChatCompletionChunk = {
+  id: string;
+  model: string;
+  choices: Array<{
+    delta: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+};
+
+export type OpenAICompatibleConfig = {
+  baseUrl: string;
+  apiKey?: string;
+};
+
+const stopReasons: Record<string, Anthropic.Messages.Message["stop_reason"]> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  function_call: "tool_use",
+  content_filter: "end_turn",
+};
+
+// Chat completions report a matched stop sequence as a regular stop, and some local servers
+// finish tool calls with "stop" as well. A tool call cut off by the token limit stays max_tokens,
+// so the agent loop does not run it with incomplete arguments.
+const toStopReason = (finishReason: string | null, hasToolCalls: boolean) => {
+  if (finishReason === "length") return "max_tokens";
+  if (hasToolCalls) return "tool_use";
+  if (!finishReason) return null;
+  return stopReasons[finishReason] || "end_turn";
+};
+
+const textOf = (content: string | Array<{ type: string; text?: string }> | undefined) => {
+  if (content === undefined) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((block) => block.type === "text")
+    .map((block) => block.text)
+    .join("\n");
+};
+
+// Translates Anthropic messages to chat completions messages: tool_use blocks become tool_calls,
+// tool_result blocks become tool messages right after the assistant message that asked for them
+const toOpenAIMessages = (system: MessageCreateParamsBase["system"], messages: MessageParam[]): OpenAIMessage[] => {
+  const result: OpenAIMessage[] = [];
+  const systemText = textOf(system);
+  if (systemText) {
+    result.push({ role: "system", content: systemText });
+  }
+
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      const toolCalls: OpenAIToolCall[] = message.content
+        .filter((block) => block.type === "tool_use")
+        .map((block) => ({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        }));
+      result.push({
+        role: "assistant",
+        content: textOf(message.content) || null,
+        ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    for (const block of message.content) {
+      if (block.type === "tool_result") {
+        const content = textOf(block.content);
+        result.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `Error: ${content}` : content,
+        });
+      }
+    }
+    const text = textOf(message.content);
+    if (text) {
+      result.push({ role: "user", content: text });
+    }
+  }
+  return result;
+};
+
+const toToolChoice = (toolChoice: MessageCreateParamsBase["tool_choice"]) => {
+  if (!toolChoice) return undefined;
+  if (toolChoice.type === "any") return "required";
+  if (toolChoice.type === "tool") return { type: "function", function: { name: toolChoice.name } };
+  return "auto";
+};
+
+const toRequestBody = (params: MessageCreateParamsBase, stream: boolean) => ({
+  model: params.model,
+  messages: toOpenAIMessages(params.system, params.messages),
+  max_tokens: params.max_tokens,
+  temperature: params.temperature,
+  top_p: params.top_p,
+  stop: params.stop_sequences,
+  tools: params.tools?.map((tool) => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+  })),
+  tool_choice: params.tools?.length ? toToolChoice(params.tool_choice) : undefined,
+  stream,
+  ...(stream ? { stream_options: { include_usage: true } } : {}),
+});
+
+// Anthropic counts cache reads separately from the input tokens, chat completions include them
+const toUsage = (usage?: OpenAIUsage | null): ApiUsage => {
+  const cached = usage?.prompt_tokens_details?.cached_tokens || 0;
+  return {
+    input_tokens: (usage?.prompt_tokens || 0) - cached,
+    output_tokens: usage?.completion_tokens || 0,
+    cache_read_input_tokens: cached,
+  };
+};
+
+// Local servers do not always send tool call IDs, the Anthropic format requires them
+const toolUseId = (id?: string) => id || `toolu_${randomUUID().replace(/-/g, "")}`;
+
+const parseArguments = (args: string) => {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+};
+
+const toAnthropicMessage = (
+  completion: OpenAIChatCompletion,
+  params: MessageCreateParamsBase
+): Anthropic.Messages.Message => {
+  const choice = completion.choices[0];
+  const content: ContentBlock[] = [];
+  if (choice?.message.content) {
+    content.push({ type: "text", text: choice.message.content });
+  }
+  for (const toolCall of choice?.message.tool_calls || []) {
+    content.push({
+      type: "tool_use",
+      id: toolUseId(toolCall.id),
+      name: toolCall.function.name,
+      input: parseArguments(toolCall.function.arguments),
+    });
+  }
+
+  return {
+    id: completion.id,
+    type: "message",
+    role: "assistant",
+    model: completion.model || params.model,
+    content,
+    stop_reason: toStopReason(choice?.finish_reason ?? null, !!choice?.message.tool_calls?.length),
+    stop_sequence: null,
+    usage: toUsage(completion.usage),
+  };
+};
+
+// Reads the server-sent events of a streaming chat completion. The connection is released
+// when the stream ends early as well, e.g. on [DONE] before the server closes it or on an error.
+async function* readChunks(response: Response): AsyncGenerator<OpenAIChatCompletionChunk> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice("data:".length).trim();
+        if (data === "[DONE]") return;
+        yield JSON.parse(data);
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+// Translates chat completion chunks to the Anthropic stream events readMessageStream expects.
+// Chat completions may interleave text and the argument deltas of several tool calls, so all
+// text goes into one block and every block stays open until the stream ends.
+async function* toAnthropicEvents(
+  chunks: AsyncIterable<OpenAIChatCompletionChunk>,
+  params: MessageCreateParamsBase
+): AsyncGenerator<RawMessageStreamEvent> {
+  let started = false;
+  let blockIndex = -1;
+  let textBlock: number | undefined;
+  // Chat completions index tool calls separately from text, map them to content block indexes
+  const toolBlocks = new Map<number, number>();
+  // Arguments are collected per block and sent once parsed, local models may emit malformed JSON
+  const toolArguments = new Map<number, string>();
+  let finishReason: string | null = null;
+  let usage: OpenAIUsage | undefined;
+
+  for await (const chunk of chunks) {
+    if (!started) {
+      started = true;
+      yield {
+        type: "message_start",
+        message: {
+          id: chunk.id,
+          type: "message",
+          role: "assistant",
+          model: chunk.model || params.model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 },
+        },
+      };
+    }
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+
+    const choice = chunk.choices[0];
+    if (!choice) continue;
+
+    if (choice.delta.content) {
+      if (textBlock === undefined) {
+        textBlock = ++blockIndex;
+        yield { type: "content_block_start", index: textBlock, content_block: { type: "text", text: "" } };
+      }
+      yield { type: "content_block_delta", index: textBlock, delta: { type: "text_delta", text: choice.delta.content } };
+    }
+
+    for (const toolCall of choice.delta.tool_calls || []) {
+      if (!toolBlocks.has(toolCall.index)) {
+        blockIndex++;
+        toolBlocks.set(toolCall.index, blockIndex);
+        toolArguments.set(blockIndex, "");
+        yield {
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: { type: "tool_use", id: toolUseId(toolCall.id), name: toolCall.function?.name || "", input: {} },
+        };
+      }
+      if (toolCall.function?.arguments) {
+        const index = toolBlocks.get(toolCall.index)!;
+        toolArguments.set(index, toolArguments.get(index) + toolCall.function.arguments);
+      }
+    }
+
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+  }
+
+  if (textBlock !== undefined) {
+    yield { type: "content_block_stop", index: textBlock };
+  }
+  for (const [index, args] of toolArguments) {
+    yield { type: "content_block_delta", index, delta: { type: "input_json_delta", partial_json: JSON.stringify(parseArguments(args)) } };
+    yield { type: "content_block_stop", index };
+  }
+  yield {
+    type: "message_delta",
+    delta: { stop_reason: toStopReason(finishReason, toolBlocks.size > 0), stop_sequence: null },
+    // Usage arrives with the last chunk, so the input tokens are reported here as well
+    usage: toUsage(usage),
+  } as RawMessageStreamEvent;
+  yield { type: "message_stop" };
+}
+
+// Adapter with the same messages.create interface as the Anthropic client for any
+// OpenAI-compatible chat completions endpoint (OpenAI, Ollama, llama.cpp server, vLLM, ...)
+export const createOpenAICompatibleClient = (config: OpenAICompatibleConfig) => {
+  const post = async (body: object, options?: Anthropic.RequestOptions) => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (config.apiKey) {
+      headers["Authorization"] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let errorData: object | undefined;
+      try {
+        errorData = JSON.parse(errorText);
+      } catch {
+        errorData = { error: { message: errorText } };
+      }
+      throw Anthropic.APIError.generate(response.status, errorData, response.statusText, undefined);
+    }
+    return response;
+  };
+
+  function create(params: MessageCreateParamsNonStreaming, options?: Anthropic.RequestOptions): Promise<Anthropic.Messages.Message>;
+  function create(params: MessageCreateParamsStreaming, options?: Anthropic.RequestOptions): Promise<AsyncIterable<RawMessageStreamEvent>>;
+  async function create(
+    params: MessageCreateParamsBase,
+    options?: Anthropic.RequestOptions
+  ): Promise<Anthropic.Messages.Message | AsyncIterable<RawMessageStreamEvent>> {
+    if (params.stream) {
+      const response = await post(toRequestBody(params, true), options);
+      return toAnthropicEvents(readChunks(response), params);
+    }
+
+    const response = await post(toRequestBody(params, false), options);
+    return toAnthropicMessage(await response.json(), params);
+  }
+
+  return { messages: { create } };
+};
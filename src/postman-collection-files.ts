@@ -0,0 +1,297 @@
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { defineTool, truncateString } from './tool-registry';
+import { CollectionItem, CollectionRequest, CollectionResponse, PostmanAuth } from './postman-collection';
+import { PostmanVariable } from './postman-variables';
+import { FileAccess, listExportedFiles, matchExportedFile, resolveExportedFile } from './postman-files';
+
+export type CollectionFileSummary = {
+  id?: string;
+  name: string;
+  file: string;
+  schemaVersion: string;
+  requests: number;
+};
+
+// The parts of the Postman Collection v2.0 / v2.1 schema the tools use, everything else is passed through
+const supportedSchemas = /\/collection\/v2\.[01]\.0\//;
+
+const keyValueSchema = z.object({
+  key: z.string().nullable().optional(),
+  value: z.unknown().optional(),
+  disabled: z.boolean().optional(),
+  type: z.string().optional(),
+}).passthrough();
+
+const descriptionSchema = z.union([
+  z.string(),
+  z.object({ content: z.string().optional() }).passthrough(),
+  z.null(),
+]);
+
+const urlSchema = z.union([
+  z.string(),
+  z.object({
+    raw: z.string().optional(),
+    protocol: z.string().optional(),
+    host: z.union([z.string(), z.array(z.string())]).optional(),
+    path: z.union([z.string(), z.array(z.union([z.string(), z.object({ value: z.string().nullable().optional() }).passthrough()]))]).optional(),
+    query: z.array(keyValueSchema).optional(),
+  }).passthrough(),
+]);
+
+// v2.1 lists auth attributes as key/value pairs, v2.0 as an object
+const authSchema = z.object({
+  type: z.string(),
+}).catchall(z.union([z.array(keyValueSchema), z.record(z.unknown())]));
+
+const eventSchema = z.object({
+  listen: z.string(),
+  script: z.object({
+    id: z.string().optional(),
+    type: z.string().optional(),
+    exec: z.union([z.array(z.string()), z.string()]).optional(),
+  }).passthrough().optional(),
+  disabled: z.boolean().optional(),
+}).passthrough();
+
+const requestSchema = z.union([
+  z.string(),
+  z.object({
+    method: z.string().optional(),
+    url: urlSchema.optional(),
+    header: z.union([z.array(keyValueSchema), z.string()]).optional(),
+    auth: authSchema.nullable().optional(),
+    body: z.object({
+      mode: z.string().optional(),
+      raw: z.string().optional(),
+      urlencoded: z.array(keyValueSchema).optional(),
+      formdata: z.array(keyValueSchema).optional(),
+    }).passthrough().nullable().optional(),
+    description: descriptionSchema.optional(),
+  }).passthrough(),
+]);
+
+type ItemInput = {
+  name?: string;
+  id?: string;
+  item?: ItemInput[];
+  request?: z.infer<typeof requestSchema>;
+  event?: z.infer<typeof eventSchema>[];
+  auth?: z.infer<typeof authSchema> | null;
+  description?: z.infer<typeof descriptionSchema>;
+};
+
+const itemSchema: z.ZodType<ItemInput> = z.lazy(() => z.object({
+  name: z.string().optional(),
+  id: z.string().optional(),
+  item: z.array(itemSchema).optional(),
+  request: requestSchema.optional(),
+  event: z.array(eventSchema).optional(),
+  auth: authSchema.nullable().optional(),
+  description: descriptionSchema.optional(),
+}).passthrough());
+
+const variableSchema = z.object({
+  // v2.0 variables may only have an id
+  id: z.string().optional(),
+  key: z.string().optional(),
+  value: z.unknown().optional(),
+  type: z.string().optional(),
+  disabled: z.boolean().optional(),
+}).passthrough();
+
+const collectionFileSchema = z.object({
+  info: z.object({
+    _postman_id: z.string().optional(),
+    name: z.string(),
+    description: descriptionSchema.optional(),
+    schema: z.string().regex(supportedSchemas, 'Only Postman Collection v2.0.0 and v2.1.0 files are supported'),
+  }).passthrough(),
+  item: z.array(itemSchema),
+  variable: z.array(variableSchema).optional(),
+  auth: authSchema.nullable().optional(),
+  event: z.array(eventSchema).optional(),
+});
+
+type CollectionFile = z.infer<typeof collectionFileSchema>;
+
+const toDescription = (description: ItemInput['description']) =>
+  typeof description === 'string' ? description : description?.content;
+
+const toKeyValues = (values: z.infer<typeof keyValueSchema>[] = []) => values.map((value) => ({
+  ...value,
+  key: value.key ?? '',
+  value: value.value === undefined || value.value === null ? '' : String(value.value),
+}));
+
+// "Key: value" lines, the string form of headers in the schema
+const parseHeaderString = (headers: string) => headers
+  .split(/\r?\n/)
+  .filter((line) => line.includes(':'))
+  .map((line) => ({ key: line.slice(0, line.indexOf(':')).trim(), value: line.slice(line.indexOf(':') + 1).trim() }));
+
+const toAuth = (auth: z.infer<typeof authSchema> | null | undefined): PostmanAuth | undefined => {
+  if (!auth) return undefined;
+  const attributes = auth[auth.type];
+  if (!attributes) {
+    return auth as PostmanAuth;
+  }
+  const pairs = Array.isArray(attributes)
+    ? attributes.map((attribute) => [attribute.key ?? '', attribute.value] as const)
+    : Object.entries(attributes);
+  return {
+    ...auth,
+    [auth.type]: pairs.map(([key, value]) => ({ key, value: value === undefined || value === null ? '' : String(value), type: 'string' })),
+  } as PostmanAuth;
+};
+
+const toUrl = (url: z.infer<typeof urlSchema> | undefined): CollectionRequest['url'] => {
+  if (!url) return undefined;
+  if (typeof url === 'string') return url;
+  return {
+    ...url,
+    host: typeof url.host === 'string' ? url.host.split('.') : url.host,
+    path: typeof url.path === 'string'
+      ? url.path.split('/').filter(Boolean)
+      : url.path?.map((segment) => typeof segment === 'string' ? segment : segment.value ?? ''),
+    query: url.query && toKeyValues(url.query),
+  };
+};
+
+const toRequest = (request: z.infer<typeof requestSchema>, name: string): CollectionRequest => {
+  if (typeof request === 'string') {
+    return { name, method: 'GET', url: request };
+  }
+  return {
+    ...request,
+    name,
+    url: toUrl(request.url),
+    header: typeof request.header === 'string' ? parseHeaderString(request.header) : request.header && toKeyValues(request.header),
+    auth: toAuth(request.auth),
+    body: request.body ? {
+      ...request.body,
+      urlencoded: request.body.urlencoded && toKeyValues(request.body.urlencoded),
+      formdata: request.body.formdata && toKeyValues(request.body.formdata),
+    } : undefined,
+    description: toDescription(request.description),
+  } as CollectionRequest;
+};
+
+const toItems = (items: ItemInput[]): CollectionItem[] => items.map((item) => ({
+  ...item,
+  name: item.name || '(unnamed)',
+  description: toDescription(item.description),
+  auth: toAuth(item.auth),
+  item: item.item && toItems(item.item),
+  request: item.request === undefined ? undefined : toRequest(item.request, item.name || '(unnamed)'),
+} as CollectionItem));
+
+// Brings v2.0 and the optional shorthand forms of v2.1 into the shape the Postman API returns
+const toCollection = (data: CollectionFile): CollectionResponse['collection'] => ({
+  ...data,
+  info: {
+    ...data.info,
+    _postman_id: data.info._postman_id || '',
+    description: toDescription(data.info.description) || '',
+  } as CollectionResponse['collection']['info'],
+  item: toItems(data.item),
+  variable: data.variable?.map(({ id, key, ...variable }) => ({ ...variable, key: key ?? id ?? '' }) as PostmanVariable),
+  auth: toAuth(data.auth),
+  event: data.event as CollectionResponse['collection']['event'],
+});
+
+const MAX_REPORTED_ISSUES = 20;
+
+export const readCollectionFile = async (file: string): Promise<CollectionResponse> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read the collection file ${file}: ${error.message}`);
+  }
+  // Exports of the Postman API wrap the collection in { collection: ... }
+  const wrapped = data && typeof data === 'object' && 'collection' in data ? (data as { collection: unknown }).collection : data;
+  const parsed = collectionFileSchema.safeParse(wrapped);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `- ${issue.path.join('.') || '(file)'}: ${issue.message}`);
+    const more = parsed.error.issues.length > MAX_REPORTED_ISSUES ? `\n... and ${parsed.error.issues.length - MAX_REPORTED_ISSUES} more` : '';
+    throw new Error(`${file} is not a valid Postman Collection v2.0 / v2.1 file:\n${issues.join('\n')}${more}`);
+  }
+  return { collection: toCollection(parsed.data), file };
+};
+
+// Directory of exported collection files, collections are only read from the API without it
+export const getCollectionsDir = () =>
+  process.env.POSTMAN_COLLECTIONS_DIR ? path.resolve(process.env.POSTMAN_COLLECTIONS_DIR) : undefined;
+
+const countRequests = (items: CollectionItem[]): number =>
+  items.reduce((count, item) => count + (item.item ? countRequests(item.item) : item.request ? 1 : 0), 0);
+
+// Summaries by file, a file is only parsed again when it changed. Invalid files are cached without one.
+const summaryCache = new Map<string, { mtimeMs: number; summary?: CollectionFileSummary }>();
+
+const readCollectionSummary = async (file: string): Promise<CollectionFileSummary | undefined> => {
+  let mtimeMs: number;
+  try {
+    ({ mtimeMs } = await stat(file));
+  } catch {
+    // Removed since the directory was listed
+    return undefined;
+  }
+  const cached = summaryCache.get(file);
+  if (cached?.mtimeMs === mtimeMs) {
+    return cached.summary;
+  }
+
+  let summary: CollectionFileSummary | undefined;
+  try {
+    const { collection } = await readCollectionFile(file);
+    summary = {
+      id: collection.info._postman_id || undefined,
+      name: collection.info.name,
+      file,
+      schemaVersion: collection.info.schema.match(/v2\.[01]\.0/)![0],
+      requests: countRequests(collection.item),
+    };
+  } catch (error) {
+    console.warn(`Skipping ${path.basename(file)}: ${error.message}`);
+  }
+  summaryCache.set(file, { mtimeMs, summary });
+  return summary;
+};
+
+// Collection files in POSTMAN_COLLECTIONS_DIR, files that are no valid collections are skipped
+export const listLocalCollections = async (): Promise<CollectionFileSummary[]> => {
+  const summaries = await Promise.all((await listExportedFiles(getCollectionsDir())).map(readCollectionSummary));
+  return summaries.filter((summary): summary is CollectionFileSummary => !!summary);
+};
+
+// The collection file a reference points to, if any: a path to a .json file, or the ID, name or
+// file name of a collection in POSTMAN_COLLECTIONS_DIR. Other references are IDs for the Postman API.
+export const findCollectionFile = async (reference: string, access: FileAccess = 'confined'): Promise<string | undefined> => {
+  if (reference.endsWith('.json')) {
+    return resolveExportedFile(reference, getCollectionsDir(), 'POSTMAN_COLLECTIONS_DIR', access);
+  }
+  // A file name needs no file to be read, IDs and names need the (cached) summaries
+  const byFileName = (await listExportedFiles(getCollectionsDir())).find((file) => path.basename(file, '.json') === reference);
+  if (byFileName) {
+    return byFileName;
+  }
+  return matchExportedFile(await listLocalCollections(), reference, 'collection')?.file;
+};
+
+export const postmanListCollectionFilesTool = defineTool({
+  name: 'list_collection_files',
+  description: 'List the exported Postman collection files in the configured collections directory. The collection tools accept their name, ID or file name instead of a collection ID, and work without the Postman API.',
+  group: 'postman',
+  schema: {},
+  handler: () => listLocalCollections(),
+  formatter: (collections) => [{
+    type: 'text',
+    text: truncateString(`## Collection Files${getCollectionsDir() ? ` in ${getCollectionsDir()}` : ''}
+${collections.map((collection) => `- ${collection.name} (file: ${collection.file}${collection.id ? `, ID: ${collection.id}` : ''}, ${collection.schemaVersion}, ${collection.requests} requests)`).join('\n')
+  || (getCollectionsDir() ? 'None' : 'POSTMAN_COLLECTIONS_DIR is not set')}`)
+  }]
+});
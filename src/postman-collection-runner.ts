@@ -0,0 +1,301 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { defineTool, ToolContext, truncateString } from './tool-registry';
+import { CollectionItem, CollectionResponse, loadCollection } from './postman-collection';
+import { loadEnvironment, loadGlobals } from './postman-environments';
+import { ResolvedRequest, collectRequests, sendCollectionRequest } from './postman-execute-request';
+import { VariableScopes, toVariables } from './postman-variables';
+import { FileAccess, resolveExportedFile } from './postman-files';
+import {
+  CollectionRun,
+  ReportFormat,
+  RequestExecution,
+  executionFailed,
+  formatRunMarkdown,
+  writeRunReports,
+} from './postman-run-report';
+
+export type RunOptions = {
+  folder?: string;
+  scopes: Pick<VariableScopes, 'globals' | 'environment'>;
+  // Local variables, they win over the data variables of each iteration
+  variables?: Record<string, string>;
+  // One row of data variables per iteration
+  iterationData?: Array<Record<string, string>>;
+  iterationCount?: number;
+  delayRequestMs?: number;
+  // Stop at the first request that fails
+  bail?: boolean;
+};
+
+export const runCollectionZodSchema = {
+  collectionId: z.string().describe('The ID / UID of the collection to run, or the path, name or file name of an exported collection file.'),
+  folder: z.string().optional().describe('Only run the requests of this folder, by its path (e.g. "Claims/Admin") or its name (optional).'),
+  environment: z.string().optional().describe('The Postman environment to use: its ID / UID, or the name or file name of an exported environment (optional).'),
+  variables: z.record(z.string()).optional().describe('Variables that override the environment, collection and data variables (optional).'),
+  iterationData: z.string().optional().describe('Name or path of a CSV or JSON file in the data directory with one row of data variables per iteration (optional).'),
+  data: z.array(z.record(z.string())).optional().describe('Data variables inline, one object per iteration (optional).'),
+  iterationCount: z.number().int().positive().optional().describe('How often to run the requests, defaults to the number of data rows or 1.'),
+  delayRequestMs: z.number().int().nonnegative().optional().describe('Milliseconds to wait between requests (optional).'),
+  bail: z.boolean().optional().describe('Stop at the first request that fails or whose tests fail (optional).'),
+  access_key: z.string().optional().describe('A collection\'s read-only access key (optional).'),
+};
+
+export type CollectionRunParams = z.infer<z.ZodObject<typeof runCollectionZodSchema>>;
+
+export type CollectionRunOptions = {
+  // Only the command line writes report files, tool calls return the summary
+  reports?: ReportFormat[];
+  reportDir?: string;
+  // The command line may name files anywhere, tool calls only files in the configured directories
+  fileAccess?: FileAccess;
+};
+
+export type CollectionRunResult = {
+  run: CollectionRun;
+  reportFiles: string[];
+};
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, line breaks and doubled quotes
+const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows.push([...row, field]);
+  return rows.filter((fields) => fields.some((value) => value !== ''));
+};
+
+// Directory of the iteration data files tool calls may read
+export const getDataDir = () =>
+  process.env.POSTMAN_DATA_DIR ? path.resolve(process.env.POSTMAN_DATA_DIR) : undefined;
+
+// Iteration data like Newman reads it: a JSON array of objects, or a CSV file with a header row
+export const loadIterationData = async (file: string, access: FileAccess = 'confined'): Promise<Array<Record<string, string>>> => {
+  const resolved = await resolveExportedFile(file, getDataDir(), 'POSTMAN_DATA_DIR', access);
+  let text: string;
+  try {
+    text = (await readFile(resolved, 'utf8')).replace(/^\uFEFF/, '');
+  } catch (error) {
+    throw new Error(`Could not read the iteration data ${file}: ${error.message}`);
+  }
+
+  if (file.toLowerCase().endsWith('.csv')) {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+      throw new Error(`The iteration data ${file} is empty`);
+    }
+    return rows.map((fields) => Object.fromEntries(header.map((key, index) => [key.trim(), fields[index] ?? ''])));
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Without the parser message, it quotes the file
+    throw new Error(`The iteration data ${file} is neither CSV nor valid JSON`);
+  }
+  if (!Array.isArray(data) || data.some((row) => !row || typeof row !== 'object' || Array.isArray(row))) {
+    throw new Error(`The iteration data ${file} must be an array of objects, one per iteration`);
+  }
+  return data.map((row) => Object.fromEntries(Object.entries(row).map(([key, value]) =>
+    [key, typeof value === 'string' ? value : JSON.stringify(value)])));
+};
+
+type ResolvedFolder = {
+  folder: CollectionItem;
+  parents: CollectionItem[];
+  path: string;
+};
+
+const collectFolders = (items: CollectionItem[], parents: CollectionItem[] = []): ResolvedFolder[] =>
+  items.filter((item) => item.item).flatMap((folder) => [
+    { folder, parents, path: [...parents, folder].map((entry) => entry.name).join('/') },
+    ...collectFolders(folder.item!, [...parents, folder]),
+  ]);
+
+// The requests of the whole collection or of one folder, by its path or, if it is unique, its name
+const selectRequests = (collection: CollectionResponse['collection'], folder?: string): ResolvedRequest[] => {
+  if (!folder) {
+    return collectRequests(collection.item || []);
+  }
+  const folders = collectFolders(collection.item || []);
+  const byPath = folders.filter((candidate) => candidate.path === folder || candidate.folder.id === folder);
+  const matches = byPath.length ? byPath : folders.filter((candidate) => candidate.folder.name === folder);
+  if (!matches.length) {
+    const available = folders.slice(0, 50).map((candidate) => `- ${candidate.path}`).join('\n');
+    throw new Error(`No folder "${folder}" in collection ${collection.info.name}. Available folders:\n${available || 'None'}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`The folder name "${folder}" is ambiguous, use one of the paths:\n${matches.map((candidate) => `- ${candidate.path}`).join('\n')}`);
+  }
+  const [{ folder: selected, parents }] = matches;
+  return collectRequests(selected.item || [], [...parents, selected]);
+};
+
+// Resolves early when the run is cancelled, the loop checks the signal afterwards
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs the requests in collection order, once per iteration. Environment, collection and global
+// variables set by scripts carry over to the following requests and iterations; the local scope
+// holds the passed variables and the data row of the current iteration and is reset per iteration.
+export const runCollection = async (
+  collection: CollectionResponse['collection'],
+  options: RunOptions,
+  context: ToolContext
+): Promise<CollectionRun> => {
+  const requests = selectRequests(collection, options.folder);
+  const data = options.iterationData || [];
+  const iterations = options.iterationCount || data.length || 1;
+  const scopes: VariableScopes = { ...options.scopes };
+
+  const started = Date.now();
+  const run: CollectionRun = {
+    collection: collection.info.name,
+    folder: options.folder,
+    startedAt: new Date(started).toISOString(),
+    durationMs: 0,
+    iterations,
+    executions: [],
+  };
+
+  for (let iteration = 0; iteration < iterations && !run.stopped; iteration++) {
+    // Like Newman, the last data row is reused when there are more iterations than rows
+    const row = data.length ? data[Math.min(iteration, data.length - 1)] : {};
+    scopes.local = toVariables({ ...row, ...options.variables });
+
+    for (const resolved of requests) {
+      if (run.executions.length && options.delayRequestMs) {
+        await delay(options.delayRequestMs, context.signal);
+      }
+      if (context.signal.aborted) {
+        run.stopped = 'cancelled';
+        break;
+      }
+
+      let execution: RequestExecution;
+      try {
+        const result = await sendCollectionRequest(collection, resolved, scopes, context, iteration);
+        execution = {
+          iteration: iteration + 1,
+          name: result.name,
+          path: result.path,
+          method: result.method,
+          url: result.url,
+          status: result.status,
+          statusText: result.statusText,
+          durationMs: result.durationMs,
+          tests: result.tests,
+          scriptErrors: result.scriptErrors,
+          logs: result.logs,
+          unresolvedVariables: result.unresolvedVariables,
+        };
+      } catch (error) {
+        if (context.signal.aborted) {
+          run.stopped = 'cancelled';
+          break;
+        }
+        execution = {
+          iteration: iteration + 1,
+          name: resolved.item.name,
+          path: resolved.path,
+          method: (resolved.item.request.method || 'GET').toUpperCase(),
+          tests: [],
+          scriptErrors: [],
+          logs: [],
+          unresolvedVariables: [],
+          error: error.message,
+        };
+      }
+      run.executions.push(execution);
+      if (options.bail && executionFailed(execution)) {
+        run.stopped = 'bail';
+        break;
+      }
+    }
+  }
+
+  run.durationMs = Date.now() - started;
+  return run;
+};
+
+// Loads the collection, environment, globals and iteration data, runs it and writes the requested reports
+export const startCollectionRun = async (
+  params: CollectionRunParams,
+  context: ToolContext,
+  { reports, reportDir, fileAccess = 'confined' }: CollectionRunOptions = {}
+): Promise<CollectionRunResult> => {
+  if (params.iterationData && params.data) {
+    throw new Error('Pass the iteration data either as a file (iterationData) or inline (data), not both');
+  }
+  const [{ collection }, environment, globals, fileData] = await Promise.all([
+    loadCollection({ collectionId: params.collectionId, access_key: params.access_key }, context, fileAccess),
+    params.environment ? loadEnvironment(params.environment, context, fileAccess) : undefined,
+    loadGlobals(),
+    params.iterationData ? loadIterationData(params.iterationData, fileAccess) : undefined,
+  ]);
+
+  const run = await runCollection(collection, {
+    folder: params.folder,
+    scopes: { globals, environment: environment?.values },
+    variables: params.variables,
+    iterationData: fileData || params.data,
+    iterationCount: params.iterationCount,
+    delayRequestMs: params.delayRequestMs,
+    bail: params.bail,
+  }, context);
+  run.environment = environment?.name;
+
+  const reportFiles = reports?.length ? await writeRunReports(run, reports, reportDir) : [];
+  return { run, reportFiles };
+};
+
+export const postmanRunCollectionTool = defineTool({
+  name: 'run_collection',
+  description: 'Run the requests of a Postman collection, or of one of its folders, in order like Newman, with their pre-request and test scripts. Returns a summary of the status codes, response times and test results of every request. Use it to check whether an API is healthy.',
+  group: 'postman',
+  schema: runCollectionZodSchema,
+  handler: (input, context) => startCollectionRun(input, context),
+  // Runs may change data in the target API
+  approval: 'confirm',
+  // Large collections with delays take minutes, and one run at a time keeps the target API calm
+  timeoutMs: 300000,
+  concurrency: 1,
+  formatter: ({ run }) => [{ type: 'text', text: truncateString(formatRunMarkdown(run)) }]
+});
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { defineTool, ToolContext, truncateString } from './tool-registry';
+import { PostmanVariable, createVariableResolver } from './postman-variables';
+import { findCollectionFile, readCollectionFile } from './postman-collection-files';
+import { FileAccess } from './postman-files';
 
 type CollectionInfo = {
   _postman_id: string;
@@ -11,22 +15,39 @@ type CollectionInfo = {
   uid: string;
 };
 
-type Request = {
+type KeyValue = {
+  key: string;
+  value: string;
+  disabled?: boolean;
+};
+
+// Auth of the collection, a folder or a request, the nearest one applies
+export type PostmanAuth = {
+  type: 'apikey' | 'bearer' | 'basic' | 'noauth';
+  apikey?: Array<{ key: string; value: string; type: string; }>;
+  bearer?: Array<{ key: string; value: string; type: string; }>;
+  basic?: Array<{ key: string; value: string; type: string; }>;
+};
+
+export type CollectionRequest = {
   name: string;
   id?: string;
   description?: string;
   method?: string;
-  url?: {
+  url?: string | {
     raw?: string;
     protocol?: string;
     host?: string[];
     path?: string[];
-    query?: Array<{ key: string; value: string; }>;
+    query?: KeyValue[];
   };
-  header?: Array<{ key: string; value: string; }>;
+  header?: KeyValue[];
+  auth?: PostmanAuth;
   body?: {
     mode?: string;
     raw?: string;
+    urlencoded?: KeyValue[];
+    formdata?: Array<KeyValue & { type?: string; }>;
     options?: {
       raw?: {
         language: string;
@@ -35,45 +56,40 @@ type Request = {
   };
 };
 
-type CollectionItem = {
+// A pre-request or test script of the collection, a folder or a request
+export type PostmanEvent = {
+  // 'prerequest' or 'test'
+  listen: string;
+  script: {
+    id?: string;
+    type?: string;
+    exec?: string[] | string;
+  };
+  disabled?: boolean;
+};
+
+export type CollectionItem = {
   name: string;
   item?: CollectionItem[]; // For folders
-  request?: Request;       // For requests
+  request?: CollectionRequest; // For requests
   id?: string;
   description?: string;
   uid?: string;
-  auth?: {
-    type: 'apikey';
-    apikey: Array<{
-      key: string;
-      value: string;
-      type: string;
-    }>;
-  };
+  auth?: PostmanAuth;
+  event?: PostmanEvent[];
 };
 
-type CollectionResponse = {
+export type CollectionResponse = {
   collection: {
     info: CollectionInfo;
     item: CollectionItem[];
-    variable?: Array<{ key: string; value: string; type: string }>;
-    auth?: {
-      type: 'apikey';
-      apikey: Array<{
-        key: string;
-        value: string;
-        type: string;
-      }>;
-    };
-    events?: Array<{
-      listen: string;
-      script: {
-        id: string;
-        type: string;
-        exec: string[];
-      };
-    }>;
+    variable?: PostmanVariable[];
+    auth?: PostmanAuth;
+    event?: PostmanEvent[];
+    events?: PostmanEvent[];
   };
+  // The exported file the collection was read from, unset for collections from the Postman API
+  file?: string;
 };
 
 type FunctionParams = {
@@ -84,7 +100,7 @@ type FunctionParams = {
 
 // Add zod schema for validation
 export const getCollectionZodSchema = {
-  collectionId: z.string().describe('The mandatory ID / UID  of the collection to retrieve.'),
+  collectionId: z.string().describe('The ID / UID of the collection to retrieve, or the path, name or file name of an exported collection file.'),
   access_key: z.string().optional().describe('A collection\'s read-only access key (optional).'),
   model: z.enum(['minimal']).optional().describe('Return a minimal representation of the collection (optional).')
 };
@@ -110,8 +126,9 @@ const formatCollectionItems = (items: CollectionItem[]): string => {
       }
       if (item.request.url) {
         const url = item.request.url;
-        if (url.raw) {
-          result += `\n    - URL: ${url.raw}`;
+        const rawUrl = typeof url === 'string' ? url : url.raw;
+        if (rawUrl) {
+          result += `\n    - URL: ${rawUrl}`;
         }
       }
     }
@@ -142,14 +159,19 @@ const getPostmanViewUrl = (collectionId: string) => {
 // Helper function to format the API response
 export const formatCollectionResponse = (response: CollectionResponse) => {
   const { collection } = response;
-  const text = `# Collection: ${collection.info.name}
-
-## Collection Information
-Created: ${collection.info.createdAt}
+  // Exported files carry no dates or owner, and may not be in Postman at all
+  const information = response.file
+    ? `File: ${response.file}
+Schema: ${collection.info.schema}${collection.info._postman_id ? `\nID: ${collection.info._postman_id}` : ''}`
+    : `Created: ${collection.info.createdAt}
 Updated: ${collection.info.updatedAt}
 Last Updated By: ${collection.info.lastUpdatedBy}
 ID: ${collection.info.uid}
-Postman View URL: ${getPostmanViewUrl(collection.info.uid)}
+Postman View URL: ${getPostmanViewUrl(collection.info.uid)}`;
+  const text = `# Collection: ${collection.info.name}
+
+## Collection Information
+${information}
 
 ## Description
 ${collection.info.description || 'No description provided'}
@@ -171,7 +193,7 @@ export const fetchPostmanCollection = async ({
   collectionId,
   access_key,
   model,
-}: FunctionParams): Promise<CollectionResponse> => {
+}: FunctionParams, { signal }: ToolContext): Promise<CollectionResponse> => {
   const baseUrl = process.env.POSTMAN_BASE_URL || 'https://api.getpostman.com';
   const apiKey = process.env.POSTMAN_API_KEY || '';
 
@@ -193,6 +215,7 @@ export const fetchPostmanCollection = async ({
 
     // Perform the fetch request
     const response = await fetch(url.toString(), {
+      signal,
       method: 'GET',
       headers,
     });
@@ -212,31 +235,35 @@ export const fetchPostmanCollection = async ({
   }
 };
 
-// Tool definition for Anthropic
-export const postmanCollectionTool = {
-  function: fetchPostmanCollection,
-  definition: {
-    name: 'get_collection',
-    description: 'Get information about a Postman collection.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        collectionId: {
-          type: 'string',
-          description: 'The ID of the collection to retrieve.'
-        },
-        access_key: {
-          type: 'string',
-          description: 'A collection\'s read-only access key (optional).'
-        },
-        model: {
-          type: 'string',
-          enum: ['minimal'],
-          description: 'Return a minimal representation of the collection (optional).'
-        }
-      },
-      required: ['collectionId'],
-      additionalProperties: false
-    }
+// Exported collection files are read offline, other references are fetched from the Postman API
+export const loadCollection = async (
+  params: FunctionParams,
+  context: ToolContext,
+  access: FileAccess = 'confined'
+): Promise<CollectionResponse> => {
+  const file = await findCollectionFile(params.collectionId, access);
+  return file ? readCollectionFile(file) : fetchPostmanCollection(params, context);
+};
+
+export const postmanCollectionTool = defineTool({
+  name: 'get_collection',
+  description: 'Get information about a Postman collection, from Postman or from an exported collection file.',
+  group: 'postman',
+  schema: getCollectionZodSchema,
+  handler: loadCollection,
+  // Full collections are large, a handful of parallel downloads is enough for the Postman API
+  concurrency: 2,
+  formatter: (response) => {
+    // Secret collection variables must not reach the model
+    const { redact } = createVariableResolver({ collection: response.collection.variable });
+    // Values are redacted before they are serialized, where quotes or backslashes in a secret would be escaped
+    const fullSpec = JSON.stringify(response, (key, value) => typeof value === 'string' ? redact(value) : value, 2);
+    const text = formatCollectionResponse(response).map(item => item.text).join('\n\n');
+    const fullText = `${redact(text)}\n\nFull Collection Spec:\n${fullSpec}`;
+
+    return [{
+      type: "text",
+      text: truncateString(fullText)
+    }];
   }
-};
\ No newline at end of file
+});
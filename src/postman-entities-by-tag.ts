@@ -1,6 +1,7 @@
 // Postman API Tool: Get Elements by Tag
 // Generated by MCP Toolgen
 import { z } from 'zod';
+import { defineTool, ToolContext } from './tool-registry';
 
 export type GetElementsByTagParams = {
   slugId: string;
@@ -42,7 +43,7 @@ export const getElementsByTag = async ({
   direction,
   cursor,
   entityType,
-}: GetElementsByTagParams): Promise<SuccessfulResponse | ErrorResponse> => {
+}: GetElementsByTagParams, { signal }: ToolContext): Promise<SuccessfulResponse | ErrorResponse> => {
   const baseUrl = 'https://api.getpostman.com';
   const apiKey = process.env.POSTMAN_API_KEY || '';
 
@@ -62,6 +63,7 @@ export const getElementsByTag = async ({
 
     // Perform the fetch request
     const response = await fetch(url.toString(), {
+      signal,
       method: 'GET',
       headers,
     });
@@ -81,43 +83,6 @@ export const getElementsByTag = async ({
   }
 };
 
-export const postmanEntitiesByTagTool = {
-  function: getElementsByTag,
-  definition: {
-    name: 'get_elements_by_tag',
-    description: 'Get Postman elements by a given tag.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        slugId: {
-          type: 'string',
-          description: 'The tag\'s ID within a team or individual (non-team) user scope.'
-        },
-        limit: {
-          type: 'integer',
-          description: 'The maximum number of tagged elements to return in a single call.'
-        },
-        direction: {
-          type: 'string',
-          enum: ['asc', 'desc'],
-          description: 'The order to sort the results by, based on the time of the element\'s tagging.'
-        },
-        cursor: {
-          type: 'string',
-          description: 'The cursor to get the next set of results in the paginated response.'
-        },
-        entityType: {
-          type: 'string',
-          enum: ['api', 'collection', 'workspace'],
-          description: 'Filter results for the given element type.'
-        }
-      },
-      required: ['slugId'],
-      additionalProperties: false
-    }
-  }
-};
-
 export const getElementsByTagZodSchema = {
   slugId: z.string().describe("The tag's ID within a team or individual (non-team) user scope."),
   limit: z.number().int().optional().describe('The maximum number of tagged elements to return in a single call.'),
@@ -125,3 +90,25 @@ export const getElementsByTagZodSchema = {
   cursor: z.string().optional().describe('The cursor to get the next set of results in the paginated response.'),
   entityType: z.enum(['api', 'collection', 'workspace']).optional().describe('Filter results for the given element type.'),
 };
+
+export const postmanEntitiesByTagTool = defineTool({
+  name: 'get_elements_by_tag',
+  description: 'Get Postman elements by a given tag.',
+  group: 'postman',
+  schema: getElementsByTagZodSchema,
+  handler: getElementsByTag,
+  formatter: (response, params) => {
+    if ('data' in response && response.data.entities.length > 0) {
+      const text = `Found ${response.data.entities.length} entities for tag '${params.slugId}':\n` +
+        response.data.entities.map((e, i) => `#${i + 1}: ${e.entityType} - ${e.entityId}`).join('\n') +
+        (response.meta.nextCursor ? `\nNext Cursor: ${response.meta.nextCursor}` : '');
+      return [{ type: 'text', text }];
+    } else if ('data' in response && response.data.entities.length === 0) {
+      return [{ type: 'text', text: 'No entities found for this tag.' }];
+    } else if ('detail' in response) {
+      return [{ type: 'text', text: `Error fetching entities by tag: ${response.detail}` }];
+    } else {
+      return [{ type: 'text', text: 'Unknown error fetching entities by tag.' }];
+    }
+  }
+});
@@ -0,0 +1,205 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { defineTool, ToolContext, truncateString } from './tool-registry';
+import { PostmanVariable, isSecret, redactedValue } from './postman-variables';
+import { FileAccess, listExportedFiles, matchExportedFile, resolveExportedFile } from './postman-files';
+
+export type PostmanEnvironment = {
+  id?: string;
+  name: string;
+  values: PostmanVariable[];
+  // The exported file the environment was read from, unset for environments from the Postman API
+  file?: string;
+};
+
+export type EnvironmentSummary = {
+  id?: string;
+  uid?: string;
+  name: string;
+  source: 'api' | 'file';
+  file?: string;
+  updatedAt?: string;
+};
+
+// Environments and globals exported from Postman share this format
+const variableFileSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  values: z.array(z.object({
+    key: z.string(),
+    value: z.unknown().optional(),
+    type: z.string().optional(),
+    enabled: z.boolean().optional(),
+  })),
+  _postman_variable_scope: z.string().optional(),
+});
+
+// Directory of exported environment files, environments are only read from the API without it
+export const getEnvironmentsDir = () =>
+  process.env.POSTMAN_ENVIRONMENTS_DIR ? path.resolve(process.env.POSTMAN_ENVIRONMENTS_DIR) : undefined;
+
+export const readEnvironmentFile = async (file: string): Promise<PostmanEnvironment> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read the environment file ${file}: ${error.message}`);
+  }
+  const parsed = variableFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `- ${issue.path.join('.') || '(file)'}: ${issue.message}`);
+    throw new Error(`${file} is not an exported Postman environment:\n${issues.join('\n')}`);
+  }
+  return {
+    id: parsed.data.id,
+    name: parsed.data.name || path.basename(file, '.json'),
+    values: parsed.data.values as PostmanVariable[],
+    file,
+  };
+};
+
+// Exported environments in POSTMAN_ENVIRONMENTS_DIR, files that are no environments are skipped
+export const listLocalEnvironments = async (): Promise<EnvironmentSummary[]> => {
+  const files = await listExportedFiles(getEnvironmentsDir());
+  const environments = await Promise.all(files.map(async (file) => {
+    try {
+      const environment = await readEnvironmentFile(file);
+      return [{ id: environment.id, name: environment.name, source: 'file' as const, file: environment.file }];
+    } catch (error) {
+      console.warn(`Skipping ${path.basename(file)}: ${error.message}`);
+      return [];
+    }
+  }));
+  return environments.flat();
+};
+
+const postmanApi = async <T>(apiPath: string, { signal }: ToolContext): Promise<T> => {
+  const baseUrl = process.env.POSTMAN_BASE_URL || 'https://api.getpostman.com';
+  const response = await fetch(`${baseUrl}${apiPath}`, {
+    signal,
+    method: 'GET',
+    headers: {
+      'X-API-Key': process.env.POSTMAN_API_KEY || '',
+      'Accept': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    throw new Error(`Postman API ${apiPath} returned ${response.status}: ${errorData}`);
+  }
+  return response.json();
+};
+
+export const listApiEnvironments = async (workspace: string | undefined, context: ToolContext): Promise<EnvironmentSummary[]> => {
+  const query = workspace ? `?workspace=${encodeURIComponent(workspace)}` : '';
+  const data = await postmanApi<{ environments: Array<{ id: string; uid: string; name: string; updatedAt?: string }> }>(
+    `/environments${query}`,
+    context
+  );
+  return data.environments.map(({ id, uid, name, updatedAt }) => ({ id, uid, name, updatedAt, source: 'api' }));
+};
+
+export const fetchApiEnvironment = async (environmentId: string, context: ToolContext): Promise<PostmanEnvironment> => {
+  const data = await postmanApi<{ environment: PostmanEnvironment }>(
+    `/environments/${encodeURIComponent(environmentId)}`,
+    context
+  );
+  if (!data.environment) {
+    throw new Error(`Postman returned no environment for ${environmentId}`);
+  }
+  return { id: data.environment.id, name: data.environment.name, values: data.environment.values || [] };
+};
+
+// A path to an exported file, the ID, name or file name of an environment in POSTMAN_ENVIRONMENTS_DIR,
+// or the ID / UID of an environment in Postman
+export const loadEnvironment = async (
+  reference: string,
+  context: ToolContext,
+  access: FileAccess = 'confined'
+): Promise<PostmanEnvironment> => {
+  if (reference.endsWith('.json')) {
+    return readEnvironmentFile(await resolveExportedFile(reference, getEnvironmentsDir(), 'POSTMAN_ENVIRONMENTS_DIR', access));
+  }
+
+  const local = matchExportedFile(await listLocalEnvironments(), reference, 'environment');
+  return local ? readEnvironmentFile(local.file!) : fetchApiEnvironment(reference, context);
+};
+
+// Globals exported from Postman, they have the lowest precedence of all variables
+export const loadGlobals = async (): Promise<PostmanVariable[]> => {
+  const file = process.env.POSTMAN_GLOBALS_FILE;
+  return file ? (await readEnvironmentFile(path.resolve(file))).values : [];
+};
+
+const formatEnvironmentSummary = (environment: EnvironmentSummary) =>
+  environment.source === 'file'
+    ? `- ${environment.name} (file: ${environment.file}${environment.id ? `, ID: ${environment.id}` : ''})`
+    : `- ${environment.name} (ID: ${environment.uid || environment.id}${environment.updatedAt ? `, updated ${environment.updatedAt}` : ''})`;
+
+// Secret values never reach the model, only the fact that the variable is set
+export const formatEnvironment = (environment: PostmanEnvironment) => {
+  const variables = environment.values.map((variable) => {
+    const value = isSecret(variable) ? redactedValue(variable.key) : JSON.stringify(variable.value ?? '');
+    const disabled = variable.enabled === false ? ' (disabled)' : '';
+    return `- ${variable.key} = ${value}${disabled}`;
+  });
+  return `# Environment: ${environment.name}
+${environment.id ? `ID: ${environment.id}\n` : ''}${environment.file ? `File: ${environment.file}\n` : ''}
+## Variables
+${variables.join('\n') || 'No variables'}`;
+};
+
+type EnvironmentList = {
+  api: EnvironmentSummary[];
+  local: EnvironmentSummary[];
+  // Listing the Postman environments failed or was skipped, the local ones are still shown
+  apiError?: string;
+};
+
+const listEnvironments = async ({ workspace }: { workspace?: string }, context: ToolContext): Promise<EnvironmentList> => {
+  const local = await listLocalEnvironments();
+  if (!process.env.POSTMAN_API_KEY) {
+    return { api: [], local, apiError: 'POSTMAN_API_KEY is not set' };
+  }
+  try {
+    return { api: await listApiEnvironments(workspace, context), local };
+  } catch (error) {
+    if (context.signal.aborted) throw error;
+    console.error('Error listing environments:', error);
+    return { api: [], local, apiError: error.message };
+  }
+};
+
+export const postmanListEnvironmentsTool = defineTool({
+  name: 'list_environments',
+  description: 'List the Postman environments available for executing collection requests: environments in Postman and exported environment files.',
+  group: 'postman',
+  schema: {
+    workspace: z.string().optional().describe('Only list the Postman environments of this workspace ID (optional).'),
+  },
+  handler: listEnvironments,
+  formatter: (result) => [{
+    type: 'text',
+    text: truncateString(`## Postman Environments
+${result.api.map(formatEnvironmentSummary).join('\n') || (result.apiError ? `Not available: ${result.apiError}` : 'None')}
+
+## Environment Files
+${result.local.map(formatEnvironmentSummary).join('\n') || 'None'}`)
+  }]
+});
+
+export const postmanGetEnvironmentTool = defineTool({
+  name: 'get_environment',
+  description: 'Get the variables of a Postman environment, by its ID or UID in Postman, or the name or file of an exported environment. Secret values are redacted.',
+  group: 'postman',
+  schema: {
+    environment: z.string().describe('The environment ID / UID, or the name or file name of an exported environment.'),
+  },
+  handler: ({ environment }, context) => loadEnvironment(environment, context),
+  formatter: (environment) => [{
+    type: 'text',
+    text: truncateString(formatEnvironment(environment))
+  }]
+});
@@ -0,0 +1,364 @@
+import { z } from 'zod';
+import { defineTool, ToolContext, truncateString } from './tool-registry';
+import {
+  CollectionItem,
+  CollectionRequest,
+  CollectionResponse,
+  PostmanAuth,
+  loadCollection,
+} from './postman-collection';
+import { loadEnvironment, loadGlobals } from './postman-environments';
+import {
+  SandboxRequest,
+  SandboxScript,
+  ScriptInput,
+  ScriptPhase,
+  ScriptTestResult,
+  runScripts,
+  scriptsEnabled,
+} from './postman-sandbox';
+import { VariableScopes, createVariableResolver, toVariables } from './postman-variables';
+
+type ExecuteRequestParams = {
+  collectionId: string;
+  request: string;
+  environment?: string;
+  variables?: Record<string, string>;
+  access_key?: string;
+};
+
+// A request of the collection with the folders it is nested in, outermost first
+export type ResolvedRequest = {
+  item: CollectionItem & { request: CollectionRequest };
+  folders: CollectionItem[];
+  path: string;
+};
+
+// Secret variable values are already redacted in the URL, headers, body and script output
+export type ExecutedRequest = {
+  name: string;
+  path: string;
+  environment?: string;
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  durationMs: number;
+  // Placeholders no variable matched, they are sent as they are
+  unresolvedVariables: string[];
+  // pm.test results of the test scripts
+  tests: ScriptTestResult[];
+  scriptErrors: string[];
+  logs: string[];
+};
+
+export const executeRequestZodSchema = {
+  collectionId: z.string().describe('The ID / UID of the collection that contains the request, or the path, name or file name of an exported collection file.'),
+  request: z.string().describe('The ID of the request, or its path in the collection with folder names separated by "/", e.g. "Claims/Get claim".'),
+  environment: z.string().optional().describe('The Postman environment to use: its ID / UID, or the name or file name of an exported environment. list_environments shows them.'),
+  variables: z.record(z.string()).optional().describe('Variables for the {{placeholders}} of the request, they override the environment and collection variables.'),
+  access_key: z.string().optional().describe('A collection\'s read-only access key (optional).'),
+};
+
+// Flattens the collection tree into its requests, keeping the folders of each
+export const collectRequests = (items: CollectionItem[], folders: CollectionItem[] = []): ResolvedRequest[] =>
+  items.flatMap((item) => {
+    if (item.item) {
+      return collectRequests(item.item, [...folders, item]);
+    }
+    if (!item.request) {
+      return [];
+    }
+    const path = [...folders, item].map((entry) => entry.name).join('/');
+    return [{ item: item as ResolvedRequest['item'], folders, path }];
+  });
+
+// Matches the ID, the UID, the path or, if it is unique, the name of a request
+export const findCollectionRequest = (collection: CollectionResponse['collection'], reference: string) => {
+  const requests = collectRequests(collection.item || []);
+  const byId = requests.filter(({ item, path }) =>
+    item.id === reference || item.uid === reference || item.request.id === reference || path === reference);
+  const matches = byId.length ? byId : requests.filter(({ item }) => item.name === reference);
+
+  if (!matches.length) {
+    const available = requests.slice(0, 50).map(({ path }) => `- ${path}`).join('\n');
+    throw new Error(`No request "${reference}" in collection ${collection.info.name}. Available requests:\n${available}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`The request name "${reference}" is ambiguous, use one of the paths:\n${matches.map(({ path }) => `- ${path}`).join('\n')}`);
+  }
+  return matches[0];
+};
+
+const buildUrl = (url: CollectionRequest['url']) => {
+  if (!url) {
+    throw new Error('The request has no URL');
+  }
+  if (typeof url === 'string') {
+    return url;
+  }
+  if (url.raw) {
+    return url.raw;
+  }
+  const query = (url.query || [])
+    .filter((param) => !param.disabled)
+    .map((param) => `${param.key}=${param.value ?? ''}`)
+    .join('&');
+  return `${url.protocol || 'https'}://${(url.host || []).join('.')}/${(url.path || []).join('/')}${query ? `?${query}` : ''}`;
+};
+
+// The request's own auth wins, then the nearest folder's, then the collection's
+const findAuth = (resolved: ResolvedRequest, collection: CollectionResponse['collection']): PostmanAuth | undefined =>
+  resolved.item.request.auth ||
+  [...resolved.folders].reverse().find((folder) => folder.auth)?.auth ||
+  collection.auth;
+
+const authValue = (auth: PostmanAuth, key: string) => {
+  const attributes = auth[auth.type as 'apikey' | 'bearer' | 'basic'] || [];
+  return attributes.find((attribute) => attribute.key === key)?.value ?? '';
+};
+
+const applyAuth = (auth: PostmanAuth | undefined, headers: Headers, url: URL, resolve: (text: string) => string) => {
+  switch (auth?.type) {
+    case 'apikey': {
+      const key = resolve(authValue(auth, 'key'));
+      const value = resolve(authValue(auth, 'value'));
+      if (authValue(auth, 'in') === 'query') {
+        url.searchParams.set(key, value);
+      } else {
+        headers.set(key, value);
+      }
+      break;
+    }
+    case 'bearer':
+      headers.set('Authorization', `Bearer ${resolve(authValue(auth, 'token'))}`);
+      break;
+    case 'basic': {
+      const credentials = `${resolve(authValue(auth, 'username'))}:${resolve(authValue(auth, 'password'))}`;
+      headers.set('Authorization', `Basic ${Buffer.from(credentials).toString('base64')}`);
+      break;
+    }
+    default:
+      // noauth or no auth at all
+      break;
+  }
+};
+
+const buildBody = (body: CollectionRequest['body'], headers: Headers, resolve: (text: string) => string) => {
+  switch (body?.mode) {
+    case 'raw':
+      if (body.options?.raw?.language === 'json' && !headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json');
+      }
+      return resolve(body.raw || '');
+    case 'urlencoded':
+      return new URLSearchParams((body.urlencoded || [])
+        .filter((param) => !param.disabled)
+        .map((param) => [resolve(param.key), resolve(param.value ?? '')]));
+    case 'formdata': {
+      // File parts cannot be sent from here, only the text fields are
+      const form = new FormData();
+      (body.formdata || [])
+        .filter((param) => !param.disabled && param.type !== 'file')
+        .forEach((param) => form.append(resolve(param.key), resolve(param.value ?? '')));
+      return form;
+    }
+    default:
+      return undefined;
+  }
+};
+
+// Scripts of the collection first, then of the folders from the outside in, then of the request, like Postman
+const collectScripts = (collection: CollectionResponse['collection'], resolved: ResolvedRequest, phase: ScriptPhase): SandboxScript[] => {
+  const sources = [
+    { name: 'collection', events: collection.event || collection.events },
+    ...resolved.folders.map((folder) => ({ name: `folder "${folder.name}"`, events: folder.event })),
+    { name: `request "${resolved.item.name}"`, events: resolved.item.event },
+  ];
+  return sources.flatMap(({ name, events }) => (events || [])
+    .filter((event) => event.listen === phase && !event.disabled && event.script?.exec)
+    .map((event) => ({
+      name: `${name} ${phase === 'prerequest' ? 'pre-request' : 'test'} script`,
+      source: Array.isArray(event.script.exec) ? event.script.exec.join('\n') : event.script.exec!,
+    })));
+};
+
+type ScriptOutput = Pick<ExecutedRequest, 'tests' | 'scriptErrors' | 'logs'>;
+
+const runPhase = async (
+  scripts: SandboxScript[],
+  input: Omit<ScriptInput, 'scopes'>,
+  scopes: VariableScopes,
+  output: ScriptOutput
+): Promise<SandboxRequest> => {
+  if (!scripts.length) return input.request;
+  const result = await runScripts(scripts, { ...input, scopes });
+  Object.assign(scopes, result.scopes);
+  output.tests.push(...result.tests);
+  output.scriptErrors.push(...result.errors);
+  output.logs.push(...result.logs);
+  return result.request;
+};
+
+// Sends one request of an already fetched collection with its scripts, variables and auth applied.
+// Variables set by the scripts are written back to scopes, so a run can pass them on to the next request;
+// the collection scope starts from the collection's own variables.
+export const sendCollectionRequest = async (
+  collection: CollectionResponse['collection'],
+  resolved: ResolvedRequest,
+  scopes: VariableScopes,
+  { signal }: ToolContext,
+  iteration = 0
+): Promise<ExecutedRequest> => {
+  const { request } = resolved.item;
+  scopes.collection ??= (collection.variable || []).map((variable) => ({ ...variable }));
+
+  const output: ScriptOutput = { tests: [], scriptErrors: [], logs: [] };
+  const withScripts = scriptsEnabled();
+  const draft: SandboxRequest = {
+    name: resolved.item.name,
+    method: (request.method || 'GET').toUpperCase(),
+    url: buildUrl(request.url),
+    headers: (request.header || [])
+      .filter((header) => !header.disabled)
+      .map((header) => ({ key: header.key, value: header.value ?? '' })),
+    body: request.body?.mode === 'raw' ? request.body.raw || '' : undefined,
+  };
+  const prepared = await runPhase(
+    withScripts ? collectScripts(collection, resolved, 'prerequest') : [],
+    { phase: 'prerequest', request: draft, iteration },
+    scopes,
+    output
+  );
+
+  const { resolve, redact, unresolved } = createVariableResolver(scopes);
+
+  const method = prepared.method;
+  const rawUrl = resolve(prepared.url);
+  // Postman sends URLs without a protocol over http
+  const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(rawUrl) ? rawUrl : `http://${rawUrl}`);
+
+  const headers = new Headers();
+  prepared.headers.forEach((header) => headers.set(resolve(header.key), resolve(header.value)));
+  applyAuth(findAuth(resolved, collection), headers, url, resolve);
+  const body = ['GET', 'HEAD'].includes(method)
+    ? undefined
+    : buildBody(request.body?.mode === 'raw' ? { ...request.body, raw: prepared.body } : request.body, headers, resolve);
+
+  const started = Date.now();
+  let response: Response;
+  try {
+    response = await fetch(url, { method, headers, body, signal });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw new Error(redact(`${method} ${url} failed: ${error.cause?.message || error.message}`));
+  }
+  const responseBody = await response.text();
+  const durationMs = Date.now() - started;
+  const responseHeaders = [...response.headers.entries()].map(([key, value]) => ({ key, value }));
+
+  await runPhase(
+    withScripts ? collectScripts(collection, resolved, 'test') : [],
+    {
+      phase: 'test',
+      request: prepared,
+      iteration,
+      response: { code: response.status, status: response.statusText, headers: responseHeaders, body: responseBody, responseTime: durationMs },
+    },
+    scopes,
+    output
+  );
+  // Test scripts may have stored secrets of the response in secret variables
+  const redactAll = (text: string) => createVariableResolver(scopes).redact(redact(text));
+
+  return {
+    name: resolved.item.name,
+    path: resolved.path,
+    method,
+    url: redactAll(url.toString()),
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(responseHeaders.map(({ key, value }) => [key, redactAll(value)])),
+    body: redactAll(responseBody),
+    durationMs,
+    unresolvedVariables: [...unresolved],
+    tests: output.tests.map((test) => ({ ...test, name: redactAll(test.name), error: test.error && redactAll(test.error) })),
+    scriptErrors: output.scriptErrors.map(redactAll),
+    logs: output.logs.map(redactAll),
+  };
+};
+
+export const executeCollectionRequest = (
+  collection: CollectionResponse['collection'],
+  reference: string,
+  scopes: VariableScopes,
+  context: ToolContext
+) => sendCollectionRequest(collection, findCollectionRequest(collection, reference), scopes, context);
+
+const executeRequest = async (
+  { collectionId, request, environment, variables, access_key }: ExecuteRequestParams,
+  context: ToolContext
+): Promise<ExecutedRequest> => {
+  const [{ collection }, loadedEnvironment, globals] = await Promise.all([
+    loadCollection({ collectionId, access_key }, context),
+    environment ? loadEnvironment(environment, context) : undefined,
+    loadGlobals(),
+  ]);
+  const result = await executeCollectionRequest(collection, request, {
+    globals,
+    environment: loadedEnvironment?.values,
+    local: toVariables(variables),
+  }, context);
+  return { ...result, environment: loadedEnvironment?.name };
+};
+
+// Bodies are cut well below TRUNCATION_LIMIT so status, tests and headers always fit
+const MAX_BODY_LENGTH = 8000;
+
+const formatTest = (test: ScriptTestResult) => {
+  const status = test.skipped ? 'SKIP' : test.passed ? 'PASS' : 'FAIL';
+  return `- ${status} ${test.name}${test.error ? `: ${test.error}` : ''}`;
+};
+
+// Tests, script errors and console output, each section followed by a blank line; empty without scripts
+export const formatScriptOutput = (result: ScriptOutput) => {
+  const passed = result.tests.filter((test) => test.passed).length;
+  const failed = result.tests.filter((test) => !test.passed && !test.skipped).length;
+  return [
+    result.tests.length ? `## Tests (${passed} passed, ${failed} failed)\n${result.tests.map(formatTest).join('\n')}` : '',
+    result.scriptErrors.length ? `## Script Errors\n${result.scriptErrors.map((error) => `- ${error}`).join('\n')}` : '',
+    result.logs.length ? `## Script Console\n${result.logs.join('\n')}` : '',
+  ].filter(Boolean).map((section) => `${section}\n\n`).join('');
+};
+
+export const formatExecutedRequest = (result: ExecutedRequest) => {
+  const headers = Object.entries(result.headers).map(([key, value]) => `${key}: ${value}`).join('\n');
+  const body = result.body.length > MAX_BODY_LENGTH
+    ? `${result.body.slice(0, MAX_BODY_LENGTH)}\n... (${result.body.length - MAX_BODY_LENGTH} more characters)`
+    : result.body;
+  return `# ${result.method} ${result.path}
+URL: ${result.url}
+${result.environment ? `Environment: ${result.environment}\n` : ''}Status: ${result.status} ${result.statusText} (${result.durationMs} ms)
+${result.unresolvedVariables.length ? `Unresolved variables: ${result.unresolvedVariables.join(', ')}\n` : ''}
+${formatScriptOutput(result)}## Response Headers
+${headers || 'None'}
+
+## Response Body
+${body || '(empty)'}`;
+};
+
+export const postmanExecuteRequestTool = defineTool({
+  name: 'execute_collection_request',
+  description: 'Send a request from a Postman collection, with its collection and environment variables and auth applied, and return the response status, headers and body. The pre-request and test scripts of the collection run in a sandbox and the test results are reported. Use get_collection first to find the request ID or path.',
+  group: 'postman',
+  schema: executeRequestZodSchema,
+  handler: executeRequest,
+  // Requests may change data in the target API
+  approval: 'confirm',
+  formatter: (result) => [{
+    type: 'text',
+    text: truncateString(formatExecutedRequest(result))
+  }]
+});
@@ -0,0 +1,79 @@
+import { readdir, realpath } from 'fs/promises';
+import path from 'path';
+
+// Files named on the command line are trusted. References from tool calls come from the model or an
+// MCP client and must stay inside the configured directory, so they cannot read other files on the server.
+export type FileAccess = 'confined' | 'any';
+
+// ../x leaves the directory, ..x.json is a file in it
+const isInside = (dir: string, file: string) => {
+  const relative = path.relative(dir, file);
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+};
+
+// The path alone does not show symlinks that lead out of the directory, their real paths do.
+// A missing file passes, reading it reports the error.
+const isReallyInside = async (dir: string, file: string) => {
+  let realFile: string;
+  try {
+    realFile = await realpath(file);
+  } catch (error) {
+    if (error.code === 'ENOENT') return true;
+    throw error;
+  }
+  return isInside(await realpath(dir), realFile);
+};
+
+// The .json files in dir, without symlinks to files outside of it
+export const listExportedFiles = async (dir: string | undefined) => {
+  if (!dir) return [];
+  let names: string[];
+  try {
+    names = (await readdir(dir)).filter((name) => name.endsWith('.json'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  const files = await Promise.all(names.map(async (name) => {
+    const file = path.join(dir, name);
+    if (await isReallyInside(dir, file)) {
+      return [file];
+    }
+    console.warn(`Skipping ${name}: it links to a file outside ${dir}`);
+    return [];
+  }));
+  return files.flat();
+};
+
+// A file reference: a file name or relative path in dir, or with 'any' access a path anywhere
+export const resolveExportedFile = async (reference: string, dir: string | undefined, setting: string, access: FileAccess) => {
+  if (access === 'any') {
+    return dir && !path.isAbsolute(reference) && !reference.includes(path.sep)
+      ? path.join(dir, reference)
+      : path.resolve(reference);
+  }
+  if (!dir) {
+    throw new Error(`Cannot read ${reference}: set ${setting} to the directory of the files the tools may read`);
+  }
+  const file = path.resolve(dir, reference);
+  if (!isInside(dir, file) || !await isReallyInside(dir, file)) {
+    throw new Error(`Cannot read ${reference}: only files in ${setting} (${dir}) can be read`);
+  }
+  return file;
+};
+
+type ExportedFile = {
+  id?: string;
+  name: string;
+  file?: string;
+};
+
+// The listed file whose ID, name or file name is the reference, if there is exactly one
+export const matchExportedFile = <T extends ExportedFile>(files: T[], reference: string, kind: string): T | undefined => {
+  const matches = files.filter((candidate) =>
+    candidate.id === reference || candidate.name === reference || path.basename(candidate.file!, '.json') === reference);
+  if (matches.length > 1) {
+    throw new Error(`The ${kind} name "${reference}" is ambiguous, use one of the files: ${matches.map((candidate) => candidate.file).join(', ')}`);
+  }
+  return matches[0];
+};
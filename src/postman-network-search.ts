@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { defineTool, ToolContext, truncateString } from './tool-registry';
 
 type Publisher = {
     type: 'team' | 'user';
@@ -60,7 +61,7 @@ export const searchNetworkZodSchema = {
     elementType: z.literal('requests').describe('The type of Postman element to search for. At this time, this only accepts the "requests" value.'),
     query: z.string().describe('The search query to find relevant requests.'),
     publisherIsVerified: z.boolean().optional().describe('Filter the search results to only return entities from publishers verified by Postman.'),
-    limit: z.number().min(1).max(10).optional().describe('The max number of search results returned in the response. The maximum allowed value is 10.'),
+    limit: z.number().int().min(1).max(10).optional().describe('The max number of search results returned in the response. The maximum allowed value is 10.'),
     nextCursor: z.string().optional().describe('The pagination cursor that points to the next record in the results set.')
 };
 
@@ -70,7 +71,7 @@ export const search_postman_network = async ({
     publisherIsVerified,
     limit,
     nextCursor,
-}: SearchParams): Promise<SearchResponse | ErrorResponse> => {
+}: SearchParams, { signal }: ToolContext): Promise<SearchResponse | ErrorResponse> => {
     const baseUrl = process.env.POSTMAN_BASE_URL || 'https://api.getpostman.com';
     const apiKey = process.env.POSTMAN_API_KEY;
 
@@ -94,6 +95,7 @@ export const search_postman_network = async ({
         }
 
         const response = await fetch(url.toString(), {
+            signal,
             method: 'GET',
             headers: {
                 'X-API-Key': apiKey,
@@ -120,41 +122,44 @@ export const search_postman_network = async ({
     }
 };
 
-// Tool definition for Anthropic
-export const postmanNetworkSearchTool = {
-    function: search_postman_network,
-    definition: {
-        name: 'search_postman_network',
-        description: 'Search the Postman API Network for requests based on a query.',
-        input_schema: {
-            type: "object",
-            properties: {
-                elementType: {
-                    type: 'string',
-                    enum: ['requests'],
-                    description: 'The type of Postman element to search for. At this time, this only accepts the "requests" value.'
-                },
-                query: {
-                    type: 'string',
-                    description: 'The search query to find relevant requests.'
-                },
-                publisherIsVerified: {
-                    type: 'boolean',
-                    description: 'Filter the search results to only return entities from publishers verified by Postman.'
-                },
-                limit: {
-                    type: 'integer',
-                    minimum: 1,
-                    maximum: 10,
-                    description: 'The max number of search results returned in the response. The maximum allowed value is 10.'
-                },
-                nextCursor: {
-                    type: 'string',
-                    description: 'The pagination cursor that points to the next record in the results set.'
-                }
-            },
-            required: ['elementType', 'query'],
-            additionalProperties: false
+export const postmanNetworkSearchTool = defineTool({
+    name: 'search_postman_network',
+    description: 'Search the Postman API Network for requests based on a query.',
+    group: 'postman',
+    schema: searchNetworkZodSchema,
+    handler: search_postman_network,
+    formatter: (response) => {
+        if (!('data' in response)) {
+            return [{
+                type: "text",
+                text: `Error searching network: ${response.detail}`
+            }];
         }
+
+        const text = `Found ${response.meta.total} results:
+${response.data.map(result => `
+Name: ${result.name}
+Method: ${result.method}
+URL: ${result.url}
+Collection:
+  - ID: ${result.collection.id}
+  - Go URL: https://go.postman.co/collections/${result.collection.id}
+Workspace:
+  - ID: ${result.workspace.id}
+  - Go URL: https://go.postman.co/workspace/${result.workspace.id}
+Publisher: ${result.publisher.name}${result.publisher.isVerified ? ' (Verified)' : ''}
+Publisher Type: ${result.publisher.type}
+Publisher Profile: ${result.publisher.profilePicUrl}
+Links:
+  - Web View: ${result.links.web.href}
+  - API Endpoint: ${result.links.self.href}
+---`).join('\n')}
+
+${response.meta.nextCursor ? `Next Page Cursor: ${response.meta.nextCursor}` : 'No more pages available'}`;
+
+        return [{
+            type: "text",
+            text: truncateString(text)
+        }];
     }
-}; 
\ No newline at end of file
+});
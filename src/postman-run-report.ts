@@ -0,0 +1,183 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { ScriptTestResult } from './postman-sandbox';
+
+// One request of one iteration, secret variable values are already redacted
+export type RequestExecution = {
+  // Starts at 1
+  iteration: number;
+  name: string;
+  path: string;
+  method?: string;
+  url?: string;
+  status?: number;
+  statusText?: string;
+  durationMs?: number;
+  tests: ScriptTestResult[];
+  scriptErrors: string[];
+  logs: string[];
+  unresolvedVariables: string[];
+  // The request could not be sent, e.g. the host was unreachable
+  error?: string;
+};
+
+export type CollectionRun = {
+  collection: string;
+  folder?: string;
+  environment?: string;
+  startedAt: string;
+  durationMs: number;
+  iterations: number;
+  executions: RequestExecution[];
+  // Why the run ended before all requests were sent
+  stopped?: 'bail' | 'cancelled';
+};
+
+export const reportFormats = ['json', 'junit', 'markdown'] as const;
+
+export type ReportFormat = typeof reportFormats[number];
+
+const reportExtensions: Record<ReportFormat, string> = {
+  json: 'json',
+  junit: 'xml',
+  markdown: 'md',
+};
+
+// A request fails when it could not be sent, a test failed or a script threw, like in Newman
+export const executionFailed = (execution: RequestExecution) =>
+  !!execution.error || execution.scriptErrors.length > 0 || execution.tests.some((test) => !test.passed && !test.skipped);
+
+export const runStats = (run: CollectionRun) => {
+  const tests = run.executions.flatMap((execution) => execution.tests);
+  return {
+    requests: run.executions.length,
+    failedRequests: run.executions.filter(executionFailed).length,
+    tests: tests.length,
+    passedTests: tests.filter((test) => test.passed).length,
+    failedTests: tests.filter((test) => !test.passed && !test.skipped).length,
+    skippedTests: tests.filter((test) => test.skipped).length,
+  };
+};
+
+export const formatRunJson = (run: CollectionRun) => JSON.stringify({ ...run, stats: runStats(run) }, null, 2);
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // Control characters are not allowed in XML 1.0, even escaped
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const seconds = (ms = 0) => (ms / 1000).toFixed(3);
+
+// One test suite per request and iteration with a test case per pm.test, like Newman's JUnit reporter.
+// Request and script errors become test cases with an <error>, so CI shows them as well.
+export const formatRunJUnit = (run: CollectionRun) => {
+  const stats = runStats(run);
+  const suites = run.executions.map((execution) => {
+    const classname = escapeXml(`${run.collection}.${execution.path.replace(/\//g, '.')}`);
+    const testcase = (name: string, body = '') =>
+      `      <testcase name="${escapeXml(name)}" classname="${classname}" time="${seconds(execution.durationMs)}"${body ? `>\n${body}\n      </testcase>` : '/>'}`;
+    const error = (message: string) => `        <error type="Error" message="${escapeXml(message)}"/>`;
+
+    const cases = [
+      ...(execution.error ? [testcase('Request', error(execution.error))] : []),
+      ...execution.scriptErrors.map((message) => testcase('Script', error(message))),
+      ...execution.tests.map((test) => testcase(
+        test.name,
+        test.skipped ? '        <skipped/>' : test.passed ? '' : `        <failure type="AssertionFailure" message="${escapeXml(test.error || 'Failed')}"/>`
+      )),
+    ];
+    const failures = execution.tests.filter((test) => !test.passed && !test.skipped).length;
+    const errors = execution.scriptErrors.length + (execution.error ? 1 : 0);
+    const skipped = execution.tests.filter((test) => test.skipped).length;
+    return `    <testsuite name="${escapeXml(`${execution.path} (iteration ${execution.iteration})`)}" tests="${cases.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" time="${seconds(execution.durationMs)}">
+${cases.map((testcase) => `${testcase}\n`).join('')}    </testsuite>`;
+  });
+  const errors = run.executions.reduce((count, execution) => count + execution.scriptErrors.length + (execution.error ? 1 : 0), 0);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${escapeXml(run.collection)}" tests="${stats.tests + errors}" failures="${stats.failedTests}" errors="${errors}" time="${seconds(run.durationMs)}" timestamp="${run.startedAt}">
+${suites.join('\n')}
+</testsuites>
+`;
+};
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const formatTestCount = (tests: ScriptTestResult[]) => {
+  if (!tests.length) return '-';
+  const passed = tests.filter((test) => test.passed).length;
+  const run = tests.filter((test) => !test.skipped).length;
+  return `${passed}/${run} passed${run < tests.length ? `, ${tests.length - run} skipped` : ''}`;
+};
+
+const stoppedReasons: Record<NonNullable<CollectionRun['stopped']>, string> = {
+  bail: 'Stopped at the first failure (bail)',
+  cancelled: 'Cancelled before all requests were sent',
+};
+
+// Summary for the model and the console: a table of all requests, then only the details of failures
+export const formatRunMarkdown = (run: CollectionRun) => {
+  const stats = runStats(run);
+  const multipleIterations = run.iterations > 1;
+  const rows = run.executions.map((execution) => {
+    const status = execution.error ? 'Error' : `${execution.status} ${execution.statusText}`;
+    const cells = [
+      ...(multipleIterations ? [String(execution.iteration)] : []),
+      `${execution.method || ''} ${execution.path}`.trim(),
+      status,
+      execution.durationMs === undefined ? '-' : `${execution.durationMs} ms`,
+      formatTestCount(execution.tests),
+      executionFailed(execution) ? 'FAIL' : 'ok',
+    ];
+    return `| ${cells.map(escapeCell).join(' | ')} |`;
+  });
+  const header = [...(multipleIterations ? ['Iteration'] : []), 'Request', 'Status', 'Time', 'Tests', 'Result'];
+
+  const failures = run.executions.filter(executionFailed).map((execution) => {
+    const details = [
+      ...(execution.error ? [`  - Request error: ${execution.error}`] : []),
+      ...execution.scriptErrors.map((error) => `  - Script error: ${error}`),
+      ...execution.tests.filter((test) => !test.passed && !test.skipped).map((test) => `  - FAIL ${test.name}${test.error ? `: ${test.error}` : ''}`),
+    ];
+    return `- ${multipleIterations ? `Iteration ${execution.iteration}: ` : ''}${execution.path}\n${details.join('\n')}`;
+  });
+
+  const unresolved = run.executions
+    .filter((execution) => execution.unresolvedVariables.length)
+    .map((execution) => `- ${execution.path}: ${execution.unresolvedVariables.join(', ')}`);
+  const uniqueUnresolved = [...new Set(unresolved)];
+
+  const summary = `# Collection Run: ${run.collection}
+${run.folder ? `Folder: ${run.folder}\n` : ''}${run.environment ? `Environment: ${run.environment}\n` : ''}Started: ${run.startedAt} (${run.durationMs} ms)
+Iterations: ${run.iterations}
+Requests: ${stats.requests} (${stats.failedRequests} failed)
+Tests: ${stats.passedTests} passed, ${stats.failedTests} failed${stats.skippedTests ? `, ${stats.skippedTests} skipped` : ''}${run.stopped ? `\n${stoppedReasons[run.stopped]}` : ''}`;
+
+  return [
+    summary,
+    `## Requests\n${rows.length ? `| ${header.join(' | ')} |\n|${header.map(() => '---').join('|')}|\n${rows.join('\n')}` : 'No requests were sent'}`,
+    failures.length ? `## Failures\n${failures.join('\n')}` : '',
+    uniqueUnresolved.length ? `## Unresolved Variables\n${uniqueUnresolved.join('\n')}` : '',
+  ].filter(Boolean).join('\n\n');
+};
+
+const reportFormatters: Record<ReportFormat, (run: CollectionRun) => string> = {
+  json: formatRunJson,
+  junit: formatRunJUnit,
+  markdown: formatRunMarkdown,
+};
+
+export const getReportsDir = () => path.resolve(process.env.POSTMAN_REPORTS_DIR || 'postman-reports');
+
+// Writes one file per format, named after the collection and the start of the run
+export const writeRunReports = async (run: CollectionRun, formats: ReportFormat[], dir = getReportsDir()) => {
+  await mkdir(dir, { recursive: true });
+  const name = `${run.collection.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'collection'}-${run.startedAt.replace(/[:.]/g, '-')}`;
+  return Promise.all([...new Set(formats)].map(async (format) => {
+    const file = path.join(dir, `${name}.${reportExtensions[format]}`);
+    await writeFile(file, `${reportFormatters[format](run).trimEnd()}\n`);
+    return file;
+  }));
+};
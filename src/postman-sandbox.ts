@@ -0,0 +1,512 @@
+import { Worker } from 'worker_threads';
+import { z } from 'zod';
+import { PostmanVariable, VariableScope, VariableScopes, variableScopes } from './postman-variables';
+import { readLimit } from './env-limits';
+
+export type ScriptPhase = 'prerequest' | 'test';
+
+export type SandboxScript = {
+  // Where the script comes from, e.g. folder "Claims" (test)
+  name: string;
+  source: string;
+};
+
+// The request as scripts see and change it, placeholders are still unresolved
+export type SandboxRequest = {
+  name: string;
+  method: string;
+  url: string;
+  headers: Array<{ key: string; value: string }>;
+  // Raw bodies only, other body modes cannot be changed by scripts
+  body?: string;
+};
+
+export type SandboxResponse = {
+  code: number;
+  status: string;
+  headers: Array<{ key: string; value: string }>;
+  body: string;
+  responseTime: number;
+};
+
+export type ScriptInput = {
+  phase: ScriptPhase;
+  request: SandboxRequest;
+  response?: SandboxResponse;
+  scopes: VariableScopes;
+  iteration?: number;
+};
+
+export type ScriptTestResult = {
+  name: string;
+  script: string;
+  passed: boolean;
+  skipped?: boolean;
+  error?: string;
+};
+
+export type ScriptRunResult = {
+  scopes: Record<VariableScope, PostmanVariable[]>;
+  request: SandboxRequest;
+  tests: ScriptTestResult[];
+  // Errors outside of pm.test, the following scripts still run
+  errors: string[];
+  logs: string[];
+};
+
+export type SandboxLimits = {
+  // Per script, synchronous code and the promises it settles
+  timeoutMs: number;
+  // Heap of the worker thread that runs the scripts of one phase
+  memoryMb: number;
+};
+
+export const loadSandboxLimits = (): SandboxLimits => ({
+  timeoutMs: readLimit('POSTMAN_SCRIPT_TIMEOUT_MS', 2000),
+  memoryMb: readLimit('POSTMAN_SCRIPT_MEMORY_MB', 64),
+});
+
+const sandboxLimits = loadSandboxLimits();
+
+// POSTMAN_SCRIPTS=off sends requests without running their pre-request and test scripts
+export const scriptsEnabled = () => process.env.POSTMAN_SCRIPTS !== 'off';
+
+// Defines the pm API inside the sandbox context. It is serialized with toString(), so it must not use
+// anything from this module; all objects the scripts can reach are created inside the context.
+function sandboxRuntime() {
+  const MAX_LOGS = 100;
+  const scopeLookupOrder = ['local', 'environment', 'collection', 'globals'];
+  let input;
+  let scopes;
+  let request;
+  let response;
+  let currentScript = '';
+  const tests = [];
+  const errors = [];
+  const logs = [];
+
+  class AssertionError extends Error {
+    constructor(message) {
+      super(message);
+      this.name = 'AssertionError';
+    }
+  }
+
+  const describe = (value) => {
+    if (typeof value === 'string') return value;
+    try {
+      const json = JSON.stringify(value);
+      return json === undefined ? String(value) : json;
+    } catch {
+      return String(value);
+    }
+  };
+  const errorMessage = (error) => error && error.message ? `${error.name || 'Error'}: ${error.message}` : describe(error);
+
+  const isEnabled = (variable) => variable.enabled !== false && !variable.disabled;
+  const lookup = (key) => {
+    for (const scope of scopeLookupOrder) {
+      const variable = scopes[scope].find((candidate) => candidate.key === key && isEnabled(candidate));
+      if (variable) return variable;
+    }
+    return undefined;
+  };
+  const replaceIn = (text) => String(text).replace(/\{\{([^{}]+)\}\}/g, (placeholder, name) => {
+    const variable = lookup(name.trim());
+    return variable ? String(variable.value ?? '') : placeholder;
+  });
+
+  const variableApi = (scope) => ({
+    get: (key) => {
+      const variable = scopes[scope].find((candidate) => candidate.key === key && isEnabled(candidate));
+      return variable ? variable.value : undefined;
+    },
+    set: (key, value) => {
+      const variable = scopes[scope].find((candidate) => candidate.key === key);
+      if (variable) {
+        variable.value = value;
+        variable.enabled = true;
+        delete variable.disabled;
+      } else {
+        scopes[scope].push({ key: String(key), value });
+      }
+    },
+    has: (key) => scopes[scope].some((candidate) => candidate.key === key && isEnabled(candidate)),
+    unset: (key) => {
+      scopes[scope] = scopes[scope].filter((candidate) => candidate.key !== key);
+    },
+    clear: () => {
+      scopes[scope] = [];
+    },
+    toObject: () => Object.fromEntries(scopes[scope].filter(isEnabled).map((variable) => [variable.key, variable.value])),
+    replaceIn,
+  });
+
+  const headerList = (headers) => {
+    const matches = (header, key) => header.key.toLowerCase() === String(key).toLowerCase();
+    const toHeader = (header, value) => typeof header === 'string'
+      ? { key: header, value: String(value ?? '') }
+      : { key: String(header.key), value: String(header.value ?? '') };
+    return {
+      get: (key) => headers.find((header) => matches(header, key))?.value,
+      has: (key) => headers.some((header) => matches(header, key)),
+      add: (header, value) => {
+        headers.push(toHeader(header, value));
+      },
+      upsert: (header, value) => {
+        const added = toHeader(header, value);
+        const existing = headers.find((candidate) => matches(candidate, added.key));
+        if (existing) existing.value = added.value;
+        else headers.push(added);
+      },
+      remove: (key) => {
+        for (let index = headers.length - 1; index >= 0; index--) {
+          if (matches(headers[index], key)) headers.splice(index, 1);
+        }
+      },
+      each: (callback) => headers.forEach((header) => callback({ key: header.key, value: header.value })),
+      toObject: () => Object.fromEntries(headers.map((header) => [header.key, header.value])),
+    };
+  };
+
+  const requestApi = () => {
+    const headers = headerList(request.headers);
+    return {
+      get url() { return request.url; },
+      set url(value) { request.url = String(value); },
+      get method() { return request.method; },
+      set method(value) { request.method = String(value).toUpperCase(); },
+      get name() { return request.name; },
+      headers,
+      addHeader: headers.upsert,
+      removeHeader: headers.remove,
+      body: {
+        get raw() { return request.body; },
+        set raw(value) { request.body = String(value); },
+        update: (value) => {
+          request.body = typeof value === 'string' ? value : JSON.stringify(value);
+        },
+        toString: () => request.body ?? '',
+      },
+    };
+  };
+
+  const typeOf = (value) => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  const deepEqual = (a, b) => {
+    if (Object.is(a, b)) return true;
+    if (typeOf(a) !== typeOf(b) || typeof a !== 'object' || a === null) return false;
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length && keysA.every((key) => deepEqual(a[key], b[key]));
+  };
+  const includes = (container, value) => {
+    if (typeof container === 'string') return container.includes(value);
+    if (Array.isArray(container)) return container.some((item) => deepEqual(item, value));
+    if (container && typeof container === 'object' && value && typeof value === 'object') {
+      return Object.keys(value).every((key) => deepEqual(container[key], value[key]));
+    }
+    return false;
+  };
+  const isEmpty = (value) => typeof value === 'string' || Array.isArray(value)
+    ? value.length === 0
+    : value && typeof value === 'object' ? Object.keys(value).length === 0 : false;
+
+  // The part of chai's expect that collections commonly use
+  const expect = (actual, negate = false) => {
+    const assertion = {};
+    const show = (value) => describe(value);
+    const check = (passed, description) => {
+      if (passed === negate) {
+        throw new AssertionError(`expected ${show(actual)} to ${negate ? 'not ' : ''}${description}`);
+      }
+      return assertion;
+    };
+    const define = (names, method) => names.forEach((name) => {
+      assertion[name] = method;
+    });
+
+    ['to', 'be', 'been', 'is', 'that', 'which', 'and', 'has', 'have', 'with', 'at', 'of', 'same', 'does', 'deep', 'own', 'any', 'all']
+      .forEach((word) => Object.defineProperty(assertion, word, { get: () => assertion }));
+    Object.defineProperty(assertion, 'not', { get: () => expect(actual, !negate) });
+
+    define(['equal', 'equals', 'eq'], (expected) => check(actual === expected, `equal ${show(expected)}`));
+    define(['eql', 'eqls'], (expected) => check(deepEqual(actual, expected), `deeply equal ${show(expected)}`));
+    define(['above', 'gt', 'greaterThan'], (limit) => check(actual > limit, `be above ${limit}`));
+    define(['least', 'gte'], (limit) => check(actual >= limit, `be at least ${limit}`));
+    define(['below', 'lt', 'lessThan'], (limit) => check(actual < limit, `be below ${limit}`));
+    define(['most', 'lte'], (limit) => check(actual <= limit, `be at most ${limit}`));
+    define(['within'], (low, high) => check(actual >= low && actual <= high, `be within ${low}..${high}`));
+    define(['include', 'includes', 'contain', 'contains'], (value) => check(includes(actual, value), `include ${show(value)}`));
+    // Like chai, the following assertions apply to the value of the property
+    define(['property'], (name, ...value) => {
+      check(
+        actual !== null && actual !== undefined && name in Object(actual) && (!value.length || deepEqual(actual[name], value[0])),
+        `have property ${show(name)}${value.length ? ` of ${show(value[0])}` : ''}`
+      );
+      return negate ? assertion : expect(actual[name]);
+    });
+    define(['lengthOf', 'length'], (length) => check(actual !== null && actual !== undefined && actual.length === length, `have length ${length}`));
+    define(['a', 'an'], (type) => check(typeOf(actual) === String(type).toLowerCase(), `be ${/^[aeiou]/i.test(type) ? 'an' : 'a'} ${type}`));
+    define(['match', 'matches'], (pattern) => check(pattern.test(String(actual)), `match ${pattern}`));
+    define(['oneOf'], (list) => check(list.some((item) => deepEqual(item, actual)), `be one of ${show(list)}`));
+
+    const properties = {
+      ok: () => check(!!actual, 'be truthy'),
+      true: () => check(actual === true, 'be true'),
+      false: () => check(actual === false, 'be false'),
+      null: () => check(actual === null, 'be null'),
+      undefined: () => check(actual === undefined, 'be undefined'),
+      exist: () => check(actual !== null && actual !== undefined, 'exist'),
+      empty: () => check(isEmpty(actual), 'be empty'),
+    };
+    Object.entries(properties).forEach(([name, getter]) => Object.defineProperty(assertion, name, { get: getter }));
+    return assertion;
+  };
+
+  // pm.response.to.have.status(200), pm.response.to.be.ok and friends
+  const responseAssertion = (negate) => {
+    const check = (passed, description) => {
+      if (passed === negate) {
+        throw new AssertionError(`expected response to ${negate ? 'not ' : ''}${description}, got ${response.code} ${response.status}`);
+      }
+    };
+    const statusIn = (low, high) => response.code >= low && response.code <= high;
+    const header = (key) => response.headers.find((candidate) => candidate.key.toLowerCase() === String(key).toLowerCase());
+    const be = {};
+    const statusClasses = {
+      ok: [200, 299],
+      success: [200, 299],
+      error: [400, 599],
+      clientError: [400, 499],
+      serverError: [500, 599],
+      notFound: [404, 404],
+    };
+    Object.entries(statusClasses).forEach(([name, [low, high]]) =>
+      Object.defineProperty(be, name, { get: () => check(statusIn(low, high), `be ${name}`) }));
+    return {
+      be,
+      have: {
+        status: (expected) => check(
+          typeof expected === 'number' ? response.code === expected : response.status === expected,
+          `have status ${expected}`
+        ),
+        header: (key, value) => check(
+          !!header(key) && (value === undefined || header(key).value === String(value)),
+          `have header ${key}${value === undefined ? '' : `: ${value}`}`
+        ),
+        body: (expected) => check(
+          expected === undefined ? response.body.length > 0 : expected instanceof RegExp ? expected.test(response.body) : response.body === expected,
+          expected === undefined ? 'have a body' : `have body ${describe(expected)}`
+        ),
+        jsonBody: () => {
+          let json = true;
+          try {
+            JSON.parse(response.body);
+          } catch {
+            json = false;
+          }
+          check(json, 'have a JSON body');
+        },
+      },
+      get not() { return responseAssertion(!negate); },
+    };
+  };
+
+  const responseApi = () => ({
+    code: response.code,
+    status: response.status,
+    responseTime: response.responseTime,
+    headers: headerList(response.headers),
+    text: () => response.body,
+    json: () => JSON.parse(response.body),
+    to: responseAssertion(false),
+  });
+
+  const test = (name, callback) => {
+    const record = (passed, error?) => tests.push({ name: String(name), script: currentScript, passed, ...(error ? { error } : {}) });
+    try {
+      const result = callback();
+      if (result && typeof result.then === 'function') {
+        result.then(() => record(true), (error) => record(false, errorMessage(error)));
+      } else {
+        record(true);
+      }
+    } catch (error) {
+      record(false, errorMessage(error));
+    }
+  };
+  test.skip = (name) => {
+    tests.push({ name: String(name), script: currentScript, passed: false, skipped: true });
+  };
+
+  const log = (level) => (...args) => {
+    if (logs.length < MAX_LOGS) {
+      logs.push(`[${level}] ${args.map(describe).join(' ')}`);
+    }
+  };
+
+  Object.defineProperty(globalThis, '__sandbox', {
+    value: Object.freeze({
+      start: (json) => {
+        input = JSON.parse(json);
+        scopes = input.scopes;
+        request = input.request;
+        response = input.response;
+        const console = { log: log('log'), info: log('info'), warn: log('warn'), error: log('error'), debug: log('debug') };
+        const pm = {
+          info: { eventName: input.phase, requestName: request.name, iteration: input.iteration || 0 },
+          variables: {
+            ...variableApi('local'),
+            get: (key) => lookup(key)?.value,
+            has: (key) => !!lookup(key),
+            toObject: () => Object.fromEntries(
+              [...scopeLookupOrder].reverse().flatMap((scope) => scopes[scope].filter(isEnabled).map((variable) => [variable.key, variable.value]))
+            ),
+          },
+          environment: variableApi('environment'),
+          collectionVariables: variableApi('collection'),
+          globals: variableApi('globals'),
+          request: requestApi(),
+          response: response ? responseApi() : undefined,
+          test,
+          expect,
+          sendRequest: () => {
+            throw new Error('pm.sendRequest is not supported in this sandbox');
+          },
+        };
+        Object.assign(globalThis, { console, pm });
+      },
+      run: (name, script) => {
+        currentScript = name;
+        try {
+          script();
+        } catch (error) {
+          errors.push(`${name}: ${errorMessage(error)}`);
+        }
+      },
+      finish: () => JSON.stringify({ scopes, request, tests, errors, logs }),
+    }),
+  });
+}
+
+// Runs in the worker thread. It is serialized with toString(), so it must not use anything from this module.
+// The context gets no host objects, only strings, so the scripts cannot reach process or require.
+function sandboxWorker() {
+  const { parentPort, workerData } = require('worker_threads');
+  const vm = require('vm');
+  const { runtime, input, scripts, timeoutMs } = workerData;
+
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    // Promises settled by a script count against its timeout
+    microtaskMode: 'afterEvaluate',
+  });
+  vm.runInContext(`(${runtime})()`, context);
+  context.__input = input;
+  vm.runInContext('__sandbox.start(__input)', context, { timeout: timeoutMs });
+
+  const hostErrors = [];
+  for (const script of scripts) {
+    try {
+      vm.runInContext(
+        `__sandbox.run(${JSON.stringify(script.name)}, function () {\n${script.source}\n});`,
+        context,
+        { timeout: timeoutMs, filename: script.name }
+      );
+    } catch (error) {
+      // Timeouts and syntax errors are thrown by vm itself, outside of the sandbox
+      hostErrors.push(`${script.name}: ${error.message}`);
+    }
+  }
+  parentPort.postMessage({ result: vm.runInContext('__sandbox.finish()', context, { timeout: timeoutMs }), hostErrors });
+}
+
+const variableSchema = z.object({
+  key: z.string(),
+  value: z.unknown().optional(),
+  type: z.string().optional(),
+  enabled: z.boolean().optional(),
+  disabled: z.boolean().optional(),
+});
+
+const headerSchema = z.object({ key: z.string(), value: z.string() });
+
+// Scripts can replace anything in the sandbox, so its output is checked like any external input
+const scriptRunResultSchema = z.object({
+  scopes: z.object(Object.fromEntries(variableScopes.map((scope) => [scope, z.array(variableSchema)])) as Record<VariableScope, z.ZodArray<typeof variableSchema>>),
+  request: z.object({
+    name: z.string(),
+    method: z.string(),
+    url: z.string(),
+    headers: z.array(headerSchema),
+    body: z.string().optional(),
+  }),
+  tests: z.array(z.object({
+    name: z.string(),
+    script: z.string(),
+    passed: z.boolean(),
+    skipped: z.boolean().optional(),
+    error: z.string().optional(),
+  })),
+  errors: z.array(z.string()),
+  logs: z.array(z.string()),
+});
+
+// Runs the scripts of one phase in order in a fresh sandbox. Never rejects: when the sandbox fails
+// as a whole, the request and variables stay unchanged and the failure is reported as a script error.
+export const runScripts = (scripts: SandboxScript[], input: ScriptInput, limits: SandboxLimits = sandboxLimits): Promise<ScriptRunResult> => {
+  const scopes = Object.fromEntries(variableScopes.map((scope) => [scope, input.scopes[scope] || []])) as Record<VariableScope, PostmanVariable[]>;
+  const unchanged = (error: string): ScriptRunResult => ({
+    scopes,
+    request: input.request,
+    tests: [],
+    errors: [`${input.phase} scripts of ${input.request.name} failed: ${error}`],
+    logs: [],
+  });
+
+  return new Promise((resolve) => {
+    const worker = new Worker(`(${sandboxWorker.toString()})()`, {
+      eval: true,
+      // Scripts must not see the API keys in the environment
+      env: {},
+      resourceLimits: { maxOldGenerationSizeMb: limits.memoryMb },
+      workerData: {
+        runtime: sandboxRuntime.toString(),
+        input: JSON.stringify({ ...input, scopes }),
+        scripts,
+        timeoutMs: limits.timeoutMs,
+      },
+    });
+
+    let settled = false;
+    const finish = (result: ScriptRunResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(watchdog);
+      worker.terminate();
+      resolve(result);
+    };
+    // vm stops each script after timeoutMs, this also covers starting the worker
+    const watchdog = setTimeout(
+      () => finish(unchanged('the sandbox did not finish in time')),
+      limits.timeoutMs * (scripts.length + 2) + 5000
+    );
+
+    worker.once('message', ({ result, hostErrors }: { result: string; hostErrors: string[] }) => {
+      let parsed: z.SafeParseReturnType<unknown, z.infer<typeof scriptRunResultSchema>>;
+      try {
+        parsed = scriptRunResultSchema.safeParse(JSON.parse(result));
+      } catch (error) {
+        return finish(unchanged(`invalid sandbox output: ${error.message}`));
+      }
+      if (!parsed.success) {
+        return finish(unchanged('the scripts replaced the sandbox state with invalid data'));
+      }
+      finish({ ...(parsed.data as ScriptRunResult), errors: [...parsed.data.errors, ...hostErrors] });
+    });
+    worker.once('error', (error: Error & { code?: string }) => finish(unchanged(
+      error.code === 'ERR_WORKER_OUT_OF_MEMORY' ? `the scripts exceeded the memory limit of ${limits.memoryMb} MB` : error.message
+    )));
+    worker.once('exit', () => finish(unchanged('the sandbox exited unexpectedly')));
+  });
+};
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { defineTool, ToolContext } from './tool-registry';
 import process from 'process';
 
 export type GenerateToolParams = {
@@ -27,7 +28,7 @@ export const generate_tool_from_postman_request = async ({
     collectionId,
     requestId,
     config,
-}: GenerateToolParams): Promise<SuccessfulResponse | ErrorResponse> => {
+}: GenerateToolParams, { signal }: ToolContext): Promise<SuccessfulResponse | ErrorResponse> => {
     const baseUrl = process.env.POSTMAN_BASE_URL || 'https://api.getpostman.com';
     const apiKey = process.env.POSTMAN_API_KEY;
 
@@ -37,6 +38,7 @@ export const generate_tool_from_postman_request = async ({
 
     try {
         const response = await fetch(`${baseUrl}/postbot/generations/tool`, {
+            signal,
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -78,43 +80,24 @@ export const generateToolZodSchema = {
     }),
 };
 
-// Export the tool definition
-export const postmanToolgenTool = {
-    function: generate_tool_from_postman_request,
-    definition: {
-        name: 'generate_tool',
-        description: 'Generates code for an AI agent tool using a collection and request from the Public API Network.',
-        input_schema: {
-            type: 'object',
-            properties: {
-                collectionId: {
-                    type: 'string',
-                    description: "The Public API Network collection's UID., example format: 24483689-91984890-1198-4573-8c9f-a66db81927de",
-                },
-                requestId: {
-                    type: 'string',
-                    description: 'The public request UID., example format: 41094746-ab513ced-796f-4b08-946e-bef868534d10',
-                },
-                config: {
-                    type: 'object',
-                    properties: {
-                        language: {
-                            type: 'string',
-                            enum: ['javascript', 'typescript'],
-                            description: 'The programming language to use for the generated request.',
-                        },
-                        agentFramework: {
-                            type: 'string',
-                            enum: ['openai', 'mistral', 'gemini', 'anthropic', 'langchain', 'autogen'],
-                            description: 'The AI agent framework to use.',
-                        },
-                    },
-                    required: ['language', 'agentFramework'],
-                    additionalProperties: false,
-                },
-            },
-            required: ['collectionId', 'requestId', 'config'],
-            additionalProperties: false,
-        },
-    },
-};
\ No newline at end of file
+export const postmanToolgenTool = defineTool({
+    name: 'generate_tool',
+    description: 'Generates code for an AI agent tool using a collection and request from the Public API Network.',
+    group: 'postman',
+    schema: generateToolZodSchema,
+    handler: generate_tool_from_postman_request,
+    // Tool generation is billed to the Postman account
+    approval: 'confirm',
+    formatter: (response) => {
+        if ('data' in response) {
+            return [{
+                type: "text",
+                text: `Generated tool code:\n\n${response.data.text}`
+            }];
+        }
+        return [{
+            type: "text",
+            text: `Error generating tool: ${response.detail}`
+        }];
+    }
+});
@@ -0,0 +1,96 @@
+import { randomUUID } from 'crypto';
+
+// A variable as Postman stores it in collections, environments and globals
+export type PostmanVariable = {
+  key: string;
+  value?: unknown;
+  type?: string;
+  enabled?: boolean;
+  disabled?: boolean;
+};
+
+// Lowest precedence first, like Postman: a local variable wins over the environment and so on
+export const variableScopes = ['globals', 'collection', 'environment', 'local'] as const;
+
+export type VariableScope = typeof variableScopes[number];
+
+export type VariableScopes = Partial<Record<VariableScope, PostmanVariable[]>>;
+
+export const toVariables = (values: Record<string, string> = {}): PostmanVariable[] =>
+  Object.entries(values).map(([key, value]) => ({ key, value }));
+
+const isEnabled = (variable: PostmanVariable) => variable.enabled !== false && !variable.disabled;
+
+export const isSecret = (variable: PostmanVariable) => variable.type === 'secret';
+
+// Values shorter than this are not redacted, replacing every "1" or "no" would garble the output
+const MIN_SECRET_LENGTH = 3;
+
+export const redactedValue = (key: string) => `<secret ${key}>`;
+
+const MAX_NESTING = 10;
+
+// A secret as it appears in returned text: as is, percent-encoded the way URL encodes paths and
+// queries, encoded by encodeURIComponent and URLSearchParams, and escaped inside JSON strings
+const secretForms = (secret: string) => [
+  secret,
+  new URL(`http://host/${secret}`).pathname.slice(1),
+  new URL(`http://host/?${secret}`).search.slice(1),
+  encodeURIComponent(secret),
+  new URLSearchParams({ value: secret }).toString().slice('value='.length),
+  JSON.stringify(secret).slice(1, -1),
+];
+
+// Postman's dynamic variables that are commonly used in collections
+const dynamicVariables: Record<string, () => string> = {
+  $guid: () => randomUUID(),
+  $randomUUID: () => randomUUID(),
+  $timestamp: () => Math.floor(Date.now() / 1000).toString(),
+  $isoTimestamp: () => new Date().toISOString(),
+  $randomInt: () => Math.floor(Math.random() * 1001).toString(),
+};
+
+// Resolves {{name}} placeholders across the scopes, unknown names are kept and reported.
+// redact() replaces the values of secret variables, use it on everything sent to the model.
+export const createVariableResolver = (scopes: VariableScopes) => {
+  // No prototype, so {{constructor}} or {{toString}} are ordinary names
+  const values: Record<string, string> = Object.create(null);
+  const secrets = new Map<string, string>();
+  for (const scope of variableScopes) {
+    for (const variable of (scopes[scope] || []).filter(isEnabled)) {
+      const value = variable.value === undefined || variable.value === null ? '' : String(variable.value);
+      values[variable.key] = value;
+      if (isSecret(variable) && value.length >= MIN_SECRET_LENGTH) {
+        secrets.set(value, variable.key);
+      }
+    }
+  }
+
+  const unresolved = new Set<string>();
+  // Values may contain placeholders themselves, the depth limit stops variables that refer to each other
+  const resolveNested = (text: string, depth: number): string => text.replace(/\{\{([^{}]+)\}\}/g, (placeholder, name: string) => {
+    const key = name.trim();
+    if (key in values) {
+      return depth < MAX_NESTING ? resolveNested(values[key], depth + 1) : values[key];
+    }
+    if (Object.hasOwn(dynamicVariables, key)) {
+      return dynamicVariables[key]();
+    }
+    unresolved.add(key);
+    return placeholder;
+  });
+  const resolve = (text: string) => resolveNested(text, 0);
+
+  const forms = new Map<string, string>();
+  secrets.forEach((key, secret) => secretForms(secret).forEach((form) => forms.set(form, key)));
+  // Longest values first, so a secret that contains another one is replaced as a whole
+  const secretValues = [...forms.keys()].sort((a, b) => b.length - a.length);
+  const redact = (text: string) => secretValues.reduce(
+    (redacted, secret) => redacted.split(secret).join(redactedValue(forms.get(secret)!)),
+    text
+  );
+
+  return { values, resolve, redact, unresolved };
+};
+
+export type VariableResolver = ReturnType<typeof createVariableResolver>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { defineTool, TextContent, ToolContext } from './tool-registry';
 
 // Types and Enums
 enum SortOptions {
@@ -22,17 +23,17 @@ enum ElementType {
 export const getAllElementsAndFoldersZodSchema = {
   since: z.string().optional().describe('Return only results created since the given time, in ISO 8601 format.'),
   until: z.string().optional().describe('Return only results created until this given time, in ISO 8601 format.'),
-  addedBy: z.number().optional().describe('Return only elements published by the given user ID.'),
+  addedBy: z.number().int().optional().describe('Return only elements published by the given user ID.'),
   name: z.string().optional().describe('Return only elements whose name includes the given value.'),
   summary: z.string().optional().describe('Return only elements whose summary includes the given value.'),
   description: z.string().optional().describe('Return only elements whose description includes the given value.'),
-  sort: z.enum(Object.values(SortOptions) as [string, ...string[]]).optional().describe('Sort the results by the given value.'),
-  direction: z.enum(Object.values(DirectionOptions) as [string, ...string[]]).optional().describe('Sort in ascending or descending order.'),
-  createdBy: z.number().optional().describe('Return only the elements created by the given user ID.'),
-  offset: z.number().optional().describe('The zero-based offset of the first item to return.'),
-  limit: z.number().optional().describe('The maximum number of elements to return.'),
-  parentFolderId: z.number().optional().describe('Return the folders and elements in a specific folder.'),
-  type: z.enum(Object.values(ElementType) as [string, ...string[]]).optional().describe('Filter by the element type.')
+  sort: z.nativeEnum(SortOptions).optional().describe('Sort the results by the given value.'),
+  direction: z.nativeEnum(DirectionOptions).optional().describe('Sort in ascending or descending order.'),
+  createdBy: z.number().int().optional().describe('Return only the elements created by the given user ID.'),
+  offset: z.number().int().optional().describe('The zero-based offset of the first item to return.'),
+  limit: z.number().int().optional().describe('The maximum number of elements to return.'),
+  parentFolderId: z.number().int().optional().describe('Return the folders and elements in a specific folder.'),
+  type: z.nativeEnum(ElementType).optional().describe('Filter by the element type.')
 };
 
 type QueryParams = {
@@ -98,7 +99,7 @@ const getPostmanViewUrl = (element: Element) => {
 };
 
 // Helper function for formatting response
-export const formatPrivateApiResponse = (response: ApiResponse) => {
+export const formatPrivateApiResponse = (response: ApiResponse): TextContent[] => {
   const formatElement = (element: Element) => {
     return `## ${element.name}
 **Type**: ${element.type}
@@ -136,7 +137,7 @@ ${elements}`
 };
 
 // Main function to execute the API call
-export const fetchPrivateAPINetworkElements = async (params: QueryParams): Promise<ApiResponse> => {
+export const fetchPrivateAPINetworkElements = async (params: QueryParams, { signal }: ToolContext): Promise<ApiResponse> => {
   const baseUrl = process.env.POSTMAN_BASE_URL || 'https://api.getpostman.com';
   const apiKey = process.env.POSTMAN_API_KEY || '';
 
@@ -160,6 +161,7 @@ export const fetchPrivateAPINetworkElements = async (params: QueryParams): Promi
     };
 
     const response = await fetch(url.toString(), {
+      signal,
       method: 'GET',
       headers,
     });
@@ -177,72 +179,11 @@ export const fetchPrivateAPINetworkElements = async (params: QueryParams): Promi
   }
 };
 
-// Tool definition for Anthropic
-export const postmanPrivateNetworkTool = {
-  function: fetchPrivateAPINetworkElements,
-  definition: {
-    name: 'get_all_elements_and_folders',
-    description: 'Fetch all elements and folders from the Private API Network.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        since: {
-          type: 'string',
-          description: 'Return only results created since the given time, in ISO 8601 format.',
-        },
-        until: {
-          type: 'string',
-          description: 'Return only results created until this given time, in ISO 8601 format.',
-        },
-        addedBy: {
-          type: 'integer',
-          description: 'Return only elements published by the given user ID.',
-        },
-        name: {
-          type: 'string',
-          description: 'Return only elements whose name includes the given value.',
-        },
-        summary: {
-          type: 'string',
-          description: 'Return only elements whose summary includes the given value.',
-        },
-        description: {
-          type: 'string',
-          description: 'Return only elements whose description includes the given value.',
-        },
-        sort: {
-          type: 'string',
-          enum: Object.values(SortOptions),
-          description: 'Sort the results by the given value.',
-        },
-        direction: {
-          type: 'string',
-          enum: Object.values(DirectionOptions),
-          description: 'Sort in ascending or descending order.',
-        },
-        createdBy: {
-          type: 'integer',
-          description: 'Return only the elements created by the given user ID.',
-        },
-        offset: {
-          type: 'integer',
-          description: 'The zero-based offset of the first item to return.',
-        },
-        limit: {
-          type: 'integer',
-          description: 'The maximum number of elements to return.',
-        },
-        parentFolderId: {
-          type: 'integer',
-          description: 'Return the folders and elements in a specific folder.',
-        },
-        type: {
-          type: 'string',
-          enum: Object.values(ElementType),
-          description: 'Filter by the element type.',
-        },
-      },
-      additionalProperties: false,
-    },
-  },
-};
\ No newline at end of file
+export const postmanPrivateNetworkTool = defineTool({
+  name: 'get_all_elements_and_folders',
+  description: 'Fetch all elements and folders from the Private API Network.',
+  group: 'postman',
+  schema: getAllElementsAndFoldersZodSchema,
+  handler: fetchPrivateAPINetworkElements,
+  formatter: formatPrivateApiResponse
+});
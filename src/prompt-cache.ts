@@ -0,0 +1,65 @@
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  MessageCreateParamsBase,
+  MessageParam,
+} from "@anthropic-ai/sdk/resources/messages.mjs";
+
+import { LlmProvider } from "./llm-client";
+
+// The API accepts cache_control on tools, system blocks and content blocks, the SDK types do not list it yet
+type CacheControl = {
+  cache_control?: { type: "ephemeral" };
+};
+
+const ephemeral: CacheControl = { cache_control: { type: "ephemeral" } };
+
+type CacheableRequest = Pick<MessageCreateParamsBase, "system" | "tools" | "messages">;
+
+// Anthropic and Bedrock cache on explicit breakpoints, OpenAI-compatible servers cache on their own
+// or not at all, so for them the request stays unchanged. PROMPT_CACHING=off disables caching.
+export const supportsPromptCaching = (provider: LlmProvider) =>
+  process.env.PROMPT_CACHING !== "off" && (provider === "anthropic" || provider === "bedrock");
+
+// Copy of the message with a breakpoint on its last content block, the history itself is not changed
+const withBreakpoint = (message: MessageParam): MessageParam => {
+  const content = typeof message.content === "string"
+    ? [{ type: "text" as const, text: message.content }]
+    : [...message.content];
+  if (!content.length) return message;
+  content[content.length - 1] = { ...content[content.length - 1], ...ephemeral };
+  return { ...message, content };
+};
+
+// Places the (at most four) cache breakpoints: after the tool definitions, after the system prompt,
+// at the end of the conversation and where the previous request ended, so each request reads
+// the prefix the previous one wrote and writes the new one for the next request.
+export const addCacheBreakpoints = <T extends CacheableRequest>(request: T, enabled: boolean): T => {
+  if (!enabled) {
+    return request;
+  }
+
+  const tools = request.tools?.length
+    ? [
+      ...request.tools.slice(0, -1),
+      { ...request.tools[request.tools.length - 1], ...ephemeral } as Anthropic.Tool,
+    ]
+    : request.tools;
+
+  const system = typeof request.system === "string" && request.system
+    ? [{ type: "text" as const, text: request.system, ...ephemeral }]
+    : request.system;
+
+  const messages = [...request.messages];
+  const last = messages.length - 1;
+  if (last >= 0) {
+    messages[last] = withBreakpoint(messages[last]);
+  }
+  // The previous request ended right before the last assistant answer
+  let lastAnswer = last - 1;
+  while (lastAnswer >= 0 && messages[lastAnswer].role !== "assistant") lastAnswer--;
+  if (lastAnswer > 0) {
+    messages[lastAnswer - 1] = withBreakpoint(messages[lastAnswer - 1]);
+  }
+
+  return { ...request, tools, system, messages };
+};
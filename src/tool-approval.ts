@@ -0,0 +1,94 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { toolRegistry } from "./tools";
+import {
+  AnyToolDefinition,
+  ApprovalPolicy,
+  McpCallCheck,
+  ToolResult,
+  approvalPolicies,
+  selectTools,
+} from "./tool-registry";
+
+// TOOL_APPROVAL overrides the policies the tools declare, by tool or group name,
+// e.g. "generate_image=deny;knowledge=confirm;create_song_suno_ai_ace=auto"
+const loadApprovalOverrides = (): Record<string, ApprovalPolicy> => {
+  const overrides: Record<string, ApprovalPolicy> = {};
+  for (const entry of (process.env.TOOL_APPROVAL || "").split(";")) {
+    const [selector, policy] = entry.split("=").map((part) => part.trim());
+    if (!selector) continue;
+    if (!approvalPolicies.includes(policy as ApprovalPolicy)) {
+      throw new Error(`TOOL_APPROVAL: unknown policy "${policy}" for ${selector}, expected one of: ${approvalPolicies.join(", ")}`);
+    }
+    // Throws on unknown tools and groups
+    selectTools(toolRegistry, [selector]);
+    overrides[selector] = policy as ApprovalPolicy;
+  }
+  return overrides;
+};
+
+const approvalOverrides = loadApprovalOverrides();
+
+// A tool name override wins over a group override, which wins over the tool's own policy
+export const getApprovalPolicy = (tool: AnyToolDefinition): ApprovalPolicy =>
+  approvalOverrides[tool.name] || approvalOverrides[tool.group] || tool.approval || "auto";
+
+const describeInput = (input: unknown) => {
+  const json = JSON.stringify(input);
+  return json.length > 300 ? `${json.slice(0, 297)}...` : json;
+};
+
+export const approvalQuestion = (caller: string, toolName: string, input: unknown) =>
+  `${caller} wants to call ${toolName} with ${describeInput(input)} — allow?`;
+
+export const deniedMessage = (toolName: string) =>
+  `The tool ${toolName} is disabled by the approval policy and was not called. Do not retry it.`;
+
+export const declinedMessage = (toolName: string) =>
+  `The user declined the call to ${toolName}, it was not executed. Ask the user how to continue instead of retrying.`;
+
+const errorResult = (text: string): ToolResult => ({
+  content: [{ type: "text", text }],
+  isError: true,
+});
+
+// Approval over MCP: confirm asks the user through elicitation when the client supports it,
+// and is rejected with an error otherwise, deny is always rejected
+export const createMcpApprovalCheck = (mcpServer: McpServer): McpCallCheck => {
+  return async (tool, input, requestId) => {
+    const policy = getApprovalPolicy(tool);
+    if (policy === "auto") {
+      return undefined;
+    }
+    if (policy === "deny") {
+      return errorResult(deniedMessage(tool.name));
+    }
+
+    if (!mcpServer.server.getClientCapabilities()?.elicitation) {
+      return errorResult(
+        `The tool ${tool.name} needs the user's approval, but this MCP client does not support elicitation. ` +
+        `Ask the server operator to allow it with TOOL_APPROVAL=${tool.name}=auto.`
+      );
+    }
+
+    try {
+      const answer = await mcpServer.server.elicitInput({
+        message: approvalQuestion("The assistant", tool.name, input),
+        requestedSchema: {
+          type: "object",
+          properties: {
+            approve: { type: "boolean", title: `Allow ${tool.name}`, default: false },
+          },
+          required: ["approve"],
+        },
+      }, { relatedRequestId: requestId });
+      if (answer.action === "accept" && answer.content?.approve === true) {
+        return undefined;
+      }
+    } catch (error) {
+      console.error(`Approval request for ${tool.name} failed:`, error);
+      return errorResult(`The approval request for ${tool.name} failed: ${error.message}`);
+    }
+    return errorResult(declinedMessage(tool.name));
+  };
+};
@@ -0,0 +1,104 @@
+import { toolRegistry } from "./tools";
+import {
+  AnyToolDefinition,
+  ToolResult,
+  cancelledResult,
+  runTool,
+  selectTools,
+} from "./tool-registry";
+import { parseLimit } from "./env-limits";
+
+export const DEFAULT_TOOL_MAX_CONCURRENCY = 4;
+
+export type ToolExecutorLimits = {
+  // Calls of all tools that may run at the same time
+  maxConcurrency: number;
+  // Per tool or group name, overrides the concurrency the tools declare
+  overrides: Record<string, number>;
+};
+
+// TOOL_MAX_CONCURRENCY limits all calls, TOOL_CONCURRENCY single tools or groups,
+// e.g. "get_collection=2;media=1"
+export const loadToolExecutorLimits = (): ToolExecutorLimits => {
+  const overrides: Record<string, number> = {};
+  for (const entry of (process.env.TOOL_CONCURRENCY || "").split(";")) {
+    const [selector, value] = entry.split("=").map((part) => part.trim());
+    if (!selector) continue;
+    // Throws on unknown tools and groups
+    selectTools(toolRegistry, [selector]);
+    overrides[selector] = parseLimit(value, `TOOL_CONCURRENCY for ${selector}`);
+  }
+
+  const maxConcurrency = process.env.TOOL_MAX_CONCURRENCY
+    ? parseLimit(process.env.TOOL_MAX_CONCURRENCY, "TOOL_MAX_CONCURRENCY")
+    : DEFAULT_TOOL_MAX_CONCURRENCY;
+  return { maxConcurrency, overrides };
+};
+
+// A tool name override wins over a group override, which wins over the tool's own limit
+export const getToolConcurrency = (tool: AnyToolDefinition, limits: ToolExecutorLimits) =>
+  limits.overrides[tool.name] || limits.overrides[tool.group] || tool.concurrency || limits.maxConcurrency;
+
+type QueuedCall = {
+  tool: AnyToolDefinition;
+  start: () => void;
+};
+
+// Runs tool calls with at most maxConcurrency at a time overall and the tool's own limit per tool.
+// Calls beyond the limits wait in order, a call cancelled while it waits never starts.
+export const createToolExecutor = (limits: ToolExecutorLimits) => {
+  let running = 0;
+  const runningByTool: Record<string, number> = {};
+  const queue: QueuedCall[] = [];
+
+  const hasSlot = (tool: AnyToolDefinition) =>
+    running < limits.maxConcurrency && (runningByTool[tool.name] || 0) < getToolConcurrency(tool, limits);
+
+  const startQueued = () => {
+    for (let index = 0; index < queue.length && running < limits.maxConcurrency;) {
+      if (hasSlot(queue[index].tool)) {
+        queue.splice(index, 1)[0].start();
+      } else {
+        index++;
+      }
+    }
+  };
+
+  // Resolves to false if the signal aborts before a slot is free
+  const waitForSlot = (tool: AnyToolDefinition, signal?: AbortSignal) => new Promise<boolean>((resolve) => {
+    const queued: QueuedCall = {
+      tool,
+      start: () => {
+        signal?.removeEventListener("abort", onAbort);
+        running++;
+        runningByTool[tool.name] = (runningByTool[tool.name] || 0) + 1;
+        resolve(true);
+      },
+    };
+    const onAbort = () => {
+      queue.splice(queue.indexOf(queued), 1);
+      resolve(false);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.push(queued);
+    startQueued();
+  });
+
+  const run = async (tool: AnyToolDefinition, input: unknown, signal?: AbortSignal): Promise<ToolResult> => {
+    if (signal?.aborted || !await waitForSlot(tool, signal)) {
+      return cancelledResult(tool.name);
+    }
+    try {
+      return await runTool(tool, input, signal);
+    } finally {
+      running--;
+      runningByTool[tool.name]--;
+      startQueued();
+    }
+  };
+
+  return { run };
+};
+
+// Shared by the console chat and all MCP sessions, so the limits hold across them
+export const toolExecutor = createToolExecutor(loadToolExecutorLimits());
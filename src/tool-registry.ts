@@ -0,0 +1,212 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z, ZodRawShape } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+export type TextContent = {
+  type: "text";
+  text: string;
+};
+
+// Result of a tool call in the MCP shape, isError marks failures the model should see as such
+export type ToolResult = {
+  content: TextContent[];
+  isError?: boolean;
+};
+
+// Groups let clients and profiles pick related tools instead of listing every name
+export const toolGroups = ["postman", "catalog", "media", "knowledge"] as const;
+
+export type ToolGroup = typeof toolGroups[number];
+
+// auto runs the tool right away, confirm asks the user first, deny never runs it
+export const approvalPolicies = ["auto", "confirm", "deny"] as const;
+
+export type ApprovalPolicy = typeof approvalPolicies[number];
+
+// Passed to every handler, the signal aborts on timeout and when the call is cancelled
+export type ToolContext = {
+  signal: AbortSignal;
+};
+
+// A tool is declared exactly once: the Anthropic definition, the MCP registration
+// and the input validation are all derived from its Zod schema. Handler and formatter are methods,
+// so a tool with a specific schema and result still fits the registry's AnyToolDefinition.
+export type ToolDefinition<Shape extends ZodRawShape = ZodRawShape, Result = unknown> = {
+  name: string;
+  description: string;
+  group: ToolGroup;
+  schema: Shape;
+  handler(input: z.infer<z.ZodObject<Shape>>, context: ToolContext): Promise<Result>;
+  formatter(result: Result, input: z.infer<z.ZodObject<Shape>>): TextContent[];
+  // Overrides TOOL_TIMEOUT_MS for tools that are known to be slow
+  timeoutMs?: number;
+  // Tools that spend money or change things should ask first, defaults to auto
+  approval?: ApprovalPolicy;
+  // Calls of this tool that may run at the same time, defaults to the global limit
+  concurrency?: number;
+};
+
+export type AnyToolDefinition = ToolDefinition<ZodRawShape, unknown>;
+
+export const defineTool = <Shape extends ZodRawShape, Result>(
+  tool: ToolDefinition<Shape, Result>
+): ToolDefinition<Shape, Result> => tool;
+
+// Utility function for truncating tool output, some MCP clients like Claude Desktop need it
+export const truncateString = (str: string, maxLength?: number) => {
+  const limit = maxLength || Number(process.env.TRUNCATION_LIMIT) || 19000;
+  if (str.length <= limit) return str;
+  return str.slice(0, limit - 3) + '...';
+};
+
+// Fails fast if a tool is missing one of its parts or is registered twice
+export const validateToolRegistry = (registry: AnyToolDefinition[]) => {
+  const names = new Set<string>();
+  for (const tool of registry) {
+    if (!tool.name) {
+      throw new Error('Tool registry contains a tool without a name');
+    }
+    if (names.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is registered more than once`);
+    }
+    if (!toolGroups.includes(tool.group)) {
+      throw new Error(`Tool ${tool.name} has an unknown group ${tool.group}`);
+    }
+    if (!tool.schema || typeof tool.schema !== 'object') {
+      throw new Error(`Tool ${tool.name} has no Zod schema`);
+    }
+    if (typeof tool.handler !== 'function') {
+      throw new Error(`Tool ${tool.name} has no handler`);
+    }
+    if (typeof tool.formatter !== 'function') {
+      throw new Error(`Tool ${tool.name} has no formatter`);
+    }
+    if (tool.approval && !approvalPolicies.includes(tool.approval)) {
+      throw new Error(`Tool ${tool.name} has an unknown approval policy ${tool.approval}`);
+    }
+    if (tool.concurrency !== undefined && !(Number.isInteger(tool.concurrency) && tool.concurrency > 0)) {
+      throw new Error(`Tool ${tool.name} has an invalid concurrency ${tool.concurrency}, expected a positive integer`);
+    }
+    names.add(tool.name);
+  }
+};
+
+// Resolves group names and tool names to the matching tools, unknown selectors are an error
+export const selectTools = (registry: AnyToolDefinition[], selectors: string[]) => {
+  const unknown = selectors.filter((selector) =>
+    !toolGroups.includes(selector as ToolGroup) && !registry.some((tool) => tool.name === selector)
+  );
+  if (unknown.length) {
+    throw new Error(`Unknown tool group or tool: ${unknown.join(', ')}`);
+  }
+  return registry.filter((tool) => selectors.includes(tool.group) || selectors.includes(tool.name));
+};
+
+// Generates the Anthropic tool definition (JSON schema) from the Zod schema
+export const toAnthropicTool = (tool: AnyToolDefinition): Anthropic.Tool => {
+  const { $schema, ...inputSchema } = zodToJsonSchema(z.object(tool.schema).strict(), {
+    $refStrategy: 'none',
+  }) as Record<string, unknown>;
+
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: inputSchema as Anthropic.Tool.InputSchema,
+  };
+};
+
+// Describes exactly which fields of a tool input are wrong, so the model can correct its call
+export const formatValidationError = (toolName: string, error: z.ZodError) => {
+  const issues = error.issues.map((issue) => {
+    const field = issue.path.length ? issue.path.join('.') : '(input)';
+    return `- ${field}: ${issue.message}`;
+  });
+  return `Invalid input for tool ${toolName}:
+${issues.join('\n')}
+Fix the listed fields and call the tool again.`;
+};
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 30000;
+
+export const getToolTimeout = (tool: AnyToolDefinition) =>
+  tool.timeoutMs || Number(process.env.TOOL_TIMEOUT_MS) || DEFAULT_TOOL_TIMEOUT_MS;
+
+// Rejects with the abort reason as soon as the signal fires, even if the promise ignores the signal
+const untilAborted = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  let onAbort: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+  return Promise.race([promise, aborted]).finally(() => signal.removeEventListener("abort", onAbort));
+};
+
+export const cancelledResult = (toolName: string): ToolResult => ({
+  content: [{ type: "text", text: `The call to ${toolName} was cancelled before it finished.` }],
+  isError: true,
+});
+
+// Runs the handler and formats its result, errors, timeouts and cancellation are reported as error results.
+// The handler gets a signal that aborts on timeout or when the caller's signal aborts, so its requests stop too.
+export const runTool = async (tool: AnyToolDefinition, input: unknown, signal?: AbortSignal): Promise<ToolResult> => {
+  if (signal?.aborted) {
+    return cancelledResult(tool.name);
+  }
+
+  const timeoutMs = getToolTimeout(tool);
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`${tool.name} did not finish within ${timeoutMs / 1000} seconds`)),
+    timeoutMs
+  );
+  const cancel = () => controller.abort(new Error(`${tool.name} was cancelled`));
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    const result = await untilAborted(tool.handler(input, { signal: controller.signal }), controller.signal);
+    return { content: tool.formatter(result, input) };
+  } catch (err) {
+    if (signal?.aborted) {
+      return cancelledResult(tool.name);
+    }
+    console.error(`Error calling ${tool.name}:`, err);
+    return {
+      content: [{
+        type: "text",
+        text: `Error calling ${tool.name}: ${err.message}`
+      }],
+      isError: true,
+    };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
+  }
+};
+
+export type ToolRunner = (tool: AnyToolDefinition, input: unknown, signal?: AbortSignal) => Promise<ToolResult>;
+
+// Checked before each call, returns the result to send instead when the call must not run
+export type McpCallCheck = (
+  tool: AnyToolDefinition,
+  input: unknown,
+  requestId: string | number
+) => Promise<ToolResult | undefined>;
+
+export type McpToolOptions = {
+  check?: McpCallCheck;
+  // Runs the approved calls, e.g. through a concurrency-limited executor
+  run?: ToolRunner;
+};
+
+// Registers every tool of the registry on the given MCP server, a cancelled MCP request aborts its call
+export const registerMcpTools = (mcpServer: McpServer, registry: AnyToolDefinition[], options: McpToolOptions = {}) => {
+  const { check, run = runTool } = options;
+  for (const tool of registry) {
+    mcpServer.tool(
+      tool.name,
+      tool.description,
+      tool.schema,
+      async (input, extra) => (await check?.(tool, input, extra.requestId)) || run(tool, input, extra.signal)
+    );
+  }
+};
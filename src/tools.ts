@@ -1,32 +1,23 @@
-import Anthropic from "@anthropic-ai/sdk";
 import { Buffer } from 'buffer';
 import process from 'process';
-import { z } from 'zod';
+import { z, ZodRawShape } from 'zod';
 
 import {
-  postmanPrivateNetworkTool,
-  getAllElementsAndFoldersZodSchema,
-  fetchPrivateAPINetworkElements,
-  formatPrivateApiResponse
-} from './private-api-network';
-import {
-  postmanCollectionTool,
-  getCollectionZodSchema,
-  fetchPostmanCollection,
-  formatCollectionResponse
-} from './postman-collection';
-import {
-  postmanToolgenTool,
-  generateToolZodSchema,
-  generate_tool_from_postman_request,
-  GenerateToolParams,
-} from './postman-toolgen';
-import {
-  postmanNetworkSearchTool,
-  searchNetworkZodSchema,
-  search_postman_network,
-} from './postman-network-search';
-import { postmanEntitiesByTagTool, getElementsByTag, getElementsByTagZodSchema } from './postman-entities-by-tag';
+  AnyToolDefinition,
+  ToolContext,
+  defineTool,
+  truncateString,
+  validateToolRegistry,
+} from './tool-registry';
+import { postmanPrivateNetworkTool } from './private-api-network';
+import { postmanCollectionTool } from './postman-collection';
+import { postmanListCollectionFilesTool } from './postman-collection-files';
+import { postmanExecuteRequestTool } from './postman-execute-request';
+import { postmanRunCollectionTool } from './postman-collection-runner';
+import { postmanGetEnvironmentTool, postmanListEnvironmentsTool } from './postman-environments';
+import { postmanToolgenTool } from './postman-toolgen';
+import { postmanNetworkSearchTool } from './postman-network-search';
+import { postmanEntitiesByTagTool } from './postman-entities-by-tag';
 
 type CreateSongParams = {
   prompt: string;
@@ -60,11 +51,12 @@ const createSongWithSunoAI = async ({
   title,
   make_instrumental = false,
   wait_audio = true,
-}: CreateSongParams): Promise<CreateSongResponse> => {
+}: CreateSongParams, { signal }: ToolContext): Promise<CreateSongResponse> => {
   const sunoAIUrl = 'http://localhost:3000/api/custom_generate';
 
   try {
     const response = await fetch(sunoAIUrl, {
+      signal,
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -130,7 +122,7 @@ const createSongWithAcedata = async ({
   model = 'chirp-v3-0',
   custom = true,
   instrumental = false,
-}: AcedataCreateSongParams): Promise<AcedataApiResponse> => {
+}: AcedataCreateSongParams, { signal }: ToolContext): Promise<AcedataApiResponse> => {
   const url = 'https://api.acedata.cloud/suno/audios';
   const token = `${process.env.ACEDATA_API_KEY}`;
 
@@ -152,6 +144,7 @@ const createSongWithAcedata = async ({
     };
 
     const response = await fetch(url, {
+      signal,
       method: 'POST',
       headers,
       body,
@@ -204,7 +197,7 @@ type GetContentParams = {
   expand: ExpandOptions[];
 };
 
-const getConfluenceContent = async ({ type, title, expand }: GetContentParams) => {
+const getConfluenceContent = async ({ type, title, expand }: GetContentParams, { signal }: ToolContext) => {
   const baseUrl = `${process.env.CONFLUENCE_BASE_URL}/wiki/rest`;
   const url = new URL(`${baseUrl}/api/content`);
 
@@ -225,6 +218,7 @@ const getConfluenceContent = async ({ type, title, expand }: GetContentParams) =
 
   try {
     const response = await fetch(url.toString(), {
+      signal,
       method: 'GET',
       headers: {
         'Authorization': `Basic ${auth}`,
@@ -261,97 +255,17 @@ type ImageGenerationResponse = {
   data: ImageData[];
 };
 
-// Add this near the top of the file after the imports
-const zodSchemas = {
-  get_weather: {
-    location: z.string().describe("The location to get the weather for")
-  },
-
-  create_song_with_suno_ai_classic: {
-    prompt: z.string().describe("The lyrics for the song, do not include instructions what the lyrics should be, just the lyrics themselves"),
-    tags: z.string().optional().describe("genre with the song"),
-    title: z.string().describe("The title of the song"),
-    make_instrumental: z.boolean().optional().describe("Whether to create an instrumental version of the song"),
-    wait_audio: z.boolean().optional().describe("Whether to wait for the audio to be generated")
-  },
-
-  create_song_suno_ai_ace: {
-    musicText: z.string().describe("The lyrics for the song, do not include instructions what the lyrics should be, just the lyrics themselves"),
-    musicStyle: z.string().describe("The style of the music (e.g., \"rock\", \"pop\", \"jazz\").")
-  },
-
-  get_confluence_content: {
-    type: z.enum(["page"]).describe("The type of content to retrieve"),
-    title: z.string().describe("The title of the content to retrieve"),
-    expand: z.array(
-      z.enum([
-        "body",
-        "body.storage",
-        "childTypes.all",
-        "childTypes.attachment",
-        "childTypes.comment",
-        "childTypes.page",
-        "container",
-        "metadata.currentuser",
-        "metadata.properties",
-        "metadata.labels",
-        "operations",
-        "children.page",
-        "children.attachment",
-        "children.comment",
-        "restrictions.read.restrictions.user",
-        "restrictions.read.restrictions.group",
-        "restrictions.update.restrictions.user",
-        "restrictions.update.restrictions.group",
-        "history",
-        "version",
-        "descendants.page",
-        "descendants.attachment",
-        "descendants.comment",
-        "space"
-      ])
-    ).optional().describe("Properties to expand in the response, body.storage is required to get the content")
-  },
-
-  generate_image: {
-    prompt: z.string().describe("The description of the image to generate"),
-    n: z.number().int().min(1).max(10).optional().describe("The number of images to generate. Defaults to 1. dalle-3 only supports 1."),
-    size: z.enum(["256x256", "512x512", "1024x1024"]).optional().describe("The size of the generated image. Larger sizes produce more detailed images. Defaults to 1024x1024. dall-e-3 only supports 1024x1024."),
-    model: z.enum(["dall-e-3", "dall-e-2"]).optional().describe("The model to use for image generation.")
-  },
-
-  get_entities_by_query: {
-    filter: z.string().describe("Filter for just the entities defined by this filter, e.g. metadata.tags=foo for tag foo in Backstage or metadata.name=<uid retrieved> to get details about a specific element"),
-    //fields: z.string().optional().describe("Restrict to just these fields in the response."),
-    limit: z.number().int().optional().describe("Number of APIs to return in the response."),
-    orderField: z.string().optional().describe("The fields to sort returned results by."),
-    cursor: z.string().optional().describe("Cursor to a set page of results.")
-  },
-
-  get_all_elements_and_folders: getAllElementsAndFoldersZodSchema,
-  get_collection: getCollectionZodSchema,
-  generate_tool: generateToolZodSchema,
-  search_postman_network: searchNetworkZodSchema,
-  get_elements_by_tag: getElementsByTagZodSchema
-};
-
-// Add a utility function for truncating strings
-const truncateString = (str: string, maxLength?: number) => {
-  const limit = maxLength || Number(process.env.TRUNCATION_LIMIT) || 19000;
-  if (str.length <= limit) return str;
-  return str.slice(0, limit - 3) + '...';
-};
-
 const generateImage = async ({
   prompt,
   n = 1,
   size = '1024x1024',
   model = 'dall-e-3',
-}: ImageGenerationParams): Promise<ImageGenerationResponse> => {
+}: ImageGenerationParams, { signal }: ToolContext): Promise<ImageGenerationResponse> => {
   const baseUrl = 'https://api.openai.com/v1';
 
   try {
     const response = await fetch(`${baseUrl}/images/generations`, {
+      signal,
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
@@ -427,7 +341,7 @@ type functionParams = {
   cursor?: string;
 };
 
-const getEntitiesByQuery = async ({ filter, fields, limit, orderField, cursor }: functionParams): Promise<GetEntitiesByQueryResponse> => {
+const getEntitiesByQuery = async ({ filter, fields, limit, orderField, cursor }: functionParams, { signal }: ToolContext): Promise<GetEntitiesByQueryResponse> => {
   const baseUrl = process.env.BACKSTAGE_BASE_URL || '/'; // Base URL will be provided by the user
   const url = new URL(`${baseUrl}/entities/by-query`);
 
@@ -450,6 +364,7 @@ const getEntitiesByQuery = async ({ filter, fields, limit, orderField, cursor }:
 
   // Perform the fetch request
   const response = await fetch(`${url}?${params.toString()}`, {
+    signal,
     method: 'GET',
     headers: {
       'Accept': 'application/json',
@@ -467,359 +382,213 @@ const getEntitiesByQuery = async ({ filter, fields, limit, orderField, cursor }:
   return data;
 };
 
-const backstageTool = {
-  function: getEntitiesByQuery,
-  definition: {
-    name: 'get_entities_by_query',
-    description: 'Search for Backstage API entities by a given query.',
-    input_schema: {
-      type: "object",
-      properties: {
-        filter: {
-          type: 'string',
-          description: 'Filter for just the entities defined by this filter, e.g. metadata.tags=foo for tag foo in Postman and Backstage'
-        },
-        fields: {
-          type: 'string',
-          description: 'Restrict to just these fields in the response.'
-        },
-        limit: {
-          type: 'integer',
-          description: 'Number of APIs to return in the response.'
-        },
-        orderField: {
-          type: 'string',
-          description: 'The fields to sort returned results by.'
-        },
-        cursor: {
-          type: 'string',
-          description: 'Cursor to a set page of results.'
-        }
-      },
-      required: ['filter'],
-      additionalProperties: false
-    }
-  }
-};
-
-const tools: Anthropic.Tool[] = [
-  {
-    name: "get_weather",
-    description: "Get the weather for a given location",
-    input_schema: {
-      type: "object",
-      properties: {
-        location: {
-          type: "string",
-          description: "The location to get the weather for",
-        },
-      },
-    },
-  },
-  {
-    name: "create_song_with_suno_ai_classic",
-    description: "Creates a song using Suno AI classic API, does not currently support instant video generation",
-    input_schema: {
-      type: "object",
-      properties: {
-        prompt: {
-          type: "string",
-          description: "The lyrics for the song, do not include instructions what the lyrics should be, just the lyrics themselves"
-        },
-        tags: {
-          type: "string",
-          description: "genre with the song."
-        },
-        title: {
-          type: "string",
-          description: "The title of the song."
-        },
-        make_instrumental: {
-          type: "boolean",
-          description: "Whether to create an instrumental version of the song."
-        },
-        wait_audio: {
-          type: "boolean",
-          description: "Whether to wait for the audio to be generated."
-        }
-      },
-      required: ['prompt', 'title'],
-      additionalProperties: false
-    }
-  },
-  {
-    name: 'create_song_suno_ai_ace',
-    description: 'Create a song using Suno ACE API, supports music videos as well',
-    input_schema: {
-      type: 'object',
-      properties: {
-        musicText: {
-          type: 'string',
-          description: 'The lyrics for the song, do not include instructions what the lyrics should be, just the lyrics themselves'
-        },
-        musicStyle: {
-          type: 'string',
-          description: 'The style of the music (e.g., "rock", "pop", "jazz").'
-        }
-      },
-      required: ['musicText', 'musicStyle'],
-      additionalProperties: false
-    }
-  },
-  {
-    name: "get_confluence_content",
-    description: "Retrieves content from Confluence",
-    input_schema: {
-      type: "object",
-      properties: {
-        type: {
-          type: "string",
-          enum: ["page"],
-          description: "The type of content to retrieve"
-        },
-        title: {
-          type: "string",
-          description: "The title of the content to retrieve"
-        },
-        expand: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: [
-              "body",
-              "body.storage",
-              "childTypes.all",
-              "childTypes.attachment",
-              "childTypes.comment",
-              "childTypes.page",
-              "container",
-              "metadata.currentuser",
-              "metadata.properties",
-              "metadata.labels",
-              "operations",
-              "children.page",
-              "children.attachment",
-              "children.comment",
-              "restrictions.read.restrictions.user",
-              "restrictions.read.restrictions.group",
-              "restrictions.update.restrictions.user",
-              "restrictions.update.restrictions.group",
-              "history",
-              "version",
-              "descendants.page",
-              "descendants.attachment",
-              "descendants.comment",
-              "space"
-            ]
-          },
-          description: "Properties to expand in the response, body.storage is required to get the content"
-        }
-      },
-      required: ["type", "title"],
-      additionalProperties: false
-    }
+const weatherTool = defineTool({
+  name: "get_weather",
+  description: "Get the weather for a given location",
+  group: "knowledge",
+  schema: {
+    location: z.string().describe("The location to get the weather for")
   },
-  {
-    name: "generate_image",
-    description: "Generate an image using DALL-E 3",
-    input_schema: {
-      type: "object",
-      properties: {
-        prompt: {
-          type: "string",
-          description: "The description of the image to generate"
-        },
-        n: {
-          type: "integer",
-          minimum: 1,
-          maximum: 10,
-          description: "The number of images to generate. Defaults to 1. dalle-3 only supports 1."
-        },
-        size: {
-          type: "string",
-          enum: ["256x256", "512x512", "1024x1024"],
-          description: "The size of the generated image. Larger sizes produce more detailed images. Defaults to 1024x1024. dall-e-3 only supports 1024x1024."
-        },
-        model: {
-          type: "string",
-          enum: ["dall-e-3", "dall-e-2"],
-          description: "The model to use for image generation."
-        }
-      },
-      required: ["prompt"],
-      additionalProperties: false
+  handler: async (input, { signal }) => {
+    const apiKey = process.env.WEATHER_API_KEY;
+    if (!apiKey) {
+      console.error("[WEATHER] Error: No API key found in environment variables");
+      throw new Error("Weather API key not found");
     }
-  },
-  backstageTool.definition,
-  postmanPrivateNetworkTool.definition,
-  postmanCollectionTool.definition,
-  postmanToolgenTool.definition,
-  postmanNetworkSearchTool.definition,
-  postmanEntitiesByTagTool.definition,
-];
-
-const functions = {
-  get_weather: async (input: { location: string }) => {
-    try {
-      const apiKey = process.env.WEATHER_API_KEY;
-      if (!apiKey) {
-        console.error("[WEATHER] Error: No API key found in environment variables");
-        throw new Error("Weather API key not found");
-      }
 
-      const response = await fetch(
-        `http://api.weatherapi.com/v1/current.json?key=${apiKey}&q=${input.location}&aqi=no`
-      );
+    const response = await fetch(
+      `http://api.weatherapi.com/v1/current.json?key=${apiKey}&q=${input.location}&aqi=no`,
+      { signal }
+    );
 
-      if (!response.ok) {
-        console.error(`[WEATHER] API error: ${response.status} ${response.statusText}`);
-        throw new Error(`Weather API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-
-      const result = `The current weather in ${data.location.name} is ${data.current.condition.text} with a temperature of ${data.current.temp_c}°C (${data.current.temp_f}°F).`;
-      // return result wrapped like in the other functions
-      return [{
-        type: "text",
-        text: result
-      }];
-    } catch (error) {
-      console.error(`[WEATHER] Error fetching weather: ${error}`);
-      throw error;
+    if (!response.ok) {
+      console.error(`[WEATHER] API error: ${response.status} ${response.statusText}`);
+      throw new Error(`Weather API error: ${response.status} ${response.statusText}`);
     }
-  },
-  create_song_with_suno_ai_classic: async (input: CreateSongParams) => {
-    try {
-      const response = await createSongWithSunoAI(input);
-      console.log('-------- Suno AI response:', response);
 
-      return response.map((song) => ({
-        type: "text",
-        text: `Generated song "${song.title}":
+    return await response.json();
+  },
+  formatter: (data) => [{
+    type: "text",
+    text: `The current weather in ${data.location.name} is ${data.current.condition.text} with a temperature of ${data.current.temp_c}°C (${data.current.temp_f}°F).`
+  }]
+});
+
+const sunoClassicTool = defineTool({
+  name: "create_song_with_suno_ai_classic",
+  description: "Creates a song using Suno AI classic API, does not currently support instant video generation",
+  group: "media",
+  schema: {
+    prompt: z.string().describe("The lyrics for the song, do not include instructions what the lyrics should be, just the lyrics themselves"),
+    tags: z.string().optional().describe("genre with the song"),
+    title: z.string().describe("The title of the song"),
+    make_instrumental: z.boolean().optional().describe("Whether to create an instrumental version of the song"),
+    wait_audio: z.boolean().optional().describe("Whether to wait for the audio to be generated")
+  },
+  handler: createSongWithSunoAI,
+  // Song generation, especially with wait_audio, takes minutes
+  timeoutMs: 300000,
+  // Paid generation services ask before spending credits
+  approval: "confirm",
+  formatter: (response) => response.map((song) => ({
+    type: "text",
+    text: `Generated song "${song.title}":
 Lyrics:
 ${song.lyric}
 
 Audio URL: ${song.audio_url}
 Video URL: ${song.video_url}`
-      }));
-
-    } catch (err) {
-      console.error('Error creating song with Suno AI:', err);
-      return [{
-        type: "text",
-        text: 'Error creating song with Suno AI'
-      }];
-    }
+  }))
+});
+
+const sunoAceTool = defineTool({
+  name: "create_song_suno_ai_ace",
+  description: "Create a song using Suno ACE API, supports music videos as well",
+  group: "media",
+  schema: {
+    musicText: z.string().describe("The lyrics for the song, do not include instructions what the lyrics should be, just the lyrics themselves"),
+    musicStyle: z.string().describe("The style of the music (e.g., \"rock\", \"pop\", \"jazz\").")
   },
-  create_song_suno_ai_ace: async (input: { musicText: string, musicStyle: string }) => {
-    try {
-      const response = await createSongWithAcedata({
-        lyric: input.musicText,
-        style: input.musicStyle,
-        title: `Generated Song`,
-      });
-      console.log('-------- ACE Data response:', response);
-
-      if (response.success && response.data.length > 0) {
-        return response.data.map(song => ({
-          type: "text",
-          text: `Generated song "${song.title}":
+  timeoutMs: 300000,
+  approval: "confirm",
+  handler: (input, context) => createSongWithAcedata({
+    lyric: input.musicText,
+    style: input.musicStyle,
+    title: `Generated Song`,
+  }, context),
+  formatter: (response) => {
+    if (response.success && response.data.length > 0) {
+      return response.data.map(song => ({
+        type: "text",
+        text: `Generated song "${song.title}":
 Lyrics:
 ${song.lyric}
 
 Style: ${song.style}
 Audio URL: ${song.audio_url}
 Video URL: ${song.video_url}`
-        }));
-      }
-
-      return [{
-        type: "text",
-        text: 'Failed to generate song'
-      }];
-    } catch (err) {
-      console.error('Error creating song with ACE Data:', err);
-      return [{
-        type: "text",
-        text: 'Error creating song with ACE Data'
-      }];
+      }));
     }
+
+    return [{
+      type: "text",
+      text: 'Failed to generate song'
+    }];
+  }
+});
+
+const confluenceTool = defineTool({
+  name: "get_confluence_content",
+  description: "Retrieves content from Confluence",
+  group: "knowledge",
+  schema: {
+    type: z.enum(["page"]).describe("The type of content to retrieve"),
+    title: z.string().describe("The title of the content to retrieve"),
+    expand: z.array(
+      z.enum([
+        "body",
+        "body.storage",
+        "childTypes.all",
+        "childTypes.attachment",
+        "childTypes.comment",
+        "childTypes.page",
+        "container",
+        "metadata.currentuser",
+        "metadata.properties",
+        "metadata.labels",
+        "operations",
+        "children.page",
+        "children.attachment",
+        "children.comment",
+        "restrictions.read.restrictions.user",
+        "restrictions.read.restrictions.group",
+        "restrictions.update.restrictions.user",
+        "restrictions.update.restrictions.group",
+        "history",
+        "version",
+        "descendants.page",
+        "descendants.attachment",
+        "descendants.comment",
+        "space"
+      ])
+    ).optional().describe("Properties to expand in the response, body.storage is required to get the content")
   },
-  get_confluence_content: async (input: Partial<GetContentParams>) => {
-    try {
-      const params: GetContentParams = {
-        type: input.type || 'page',
-        title: input.title || '',
-        expand: Array.isArray(input.expand) ? input.expand : ['body.storage']
-      };
-
-      const response = await getConfluenceContent(params);
-      console.log('-------- Confluence response:', response);
-
-      if (response.results && response.results.length > 0) {
-        const content = response.results[0];
-        const text = `Title: ${content.title}
+  handler: (input, context) => getConfluenceContent({
+    type: input.type || 'page',
+    title: input.title || '',
+    expand: Array.isArray(input.expand) ? input.expand : ['body.storage']
+  }, context),
+  formatter: (response) => {
+    if (response.results && response.results.length > 0) {
+      const content = response.results[0];
+      const text = `Title: ${content.title}
 ID: ${content.id}
 Type: ${content.type}
 Status: ${content.status}
 ${content.body?.storage?.value ? `\nContent:\n${content.body.storage.value}` : ''}`;
 
-        return [{
-          type: "text",
-          text: truncateString(text)
-        }];
-      }
-
       return [{
         type: "text",
-        text: 'No content found'
-      }];
-    } catch (err) {
-      console.error('Error getting Confluence content:', err);
-      return [{
-        type: "text",
-        text: `Error getting Confluence content: ${err.message}`
+        text: truncateString(text)
       }];
     }
-  },
-  generate_image: async (input: ImageGenerationParams) => {
-    try {
-      const response = await generateImage(input);
-      console.log('-------- DALL-E response:', response);
 
-      if (response.data && response.data.length > 0) {
-        return response.data.map(image => ({
-          type: "text",
-          text: `Generated image:
+    return [{
+      type: "text",
+      text: 'No content found'
+    }];
+  }
+});
+
+const imageTool = defineTool({
+  name: "generate_image",
+  description: "Generate an image using DALL-E 3",
+  group: "media",
+  schema: {
+    prompt: z.string().describe("The description of the image to generate"),
+    n: z.number().int().min(1).max(10).optional().describe("The number of images to generate. Defaults to 1. dalle-3 only supports 1."),
+    size: z.enum(["256x256", "512x512", "1024x1024"]).optional().describe("The size of the generated image. Larger sizes produce more detailed images. Defaults to 1024x1024. dall-e-3 only supports 1024x1024."),
+    model: z.enum(["dall-e-3", "dall-e-2"]).optional().describe("The model to use for image generation.")
+  },
+  handler: generateImage,
+  timeoutMs: 120000,
+  approval: "confirm",
+  formatter: (response, input) => {
+    if (response.data && response.data.length > 0) {
+      return response.data.map(image => ({
+        type: "text",
+        text: `Generated image:
 Original prompt: ${input.prompt}
 Revised prompt: ${image.revised_prompt}
 Image URL: ${image.url}`
-        }));
-      }
-
-      return [{
-        type: "text",
-        text: 'Failed to generate image'
-      }];
-    } catch (err) {
-      console.error('Error generating image:', err);
-      return [{
-        type: "text",
-        text: `Error generating image: ${err.message}`
-      }];
+      }));
     }
-  },
-  get_entities_by_query: async (input: functionParams) => {
-    try {
-      const response = await getEntitiesByQuery(input);
-      console.log('-------- Backstage response:', response);
 
-      if (response.items && response.items.length > 0) {
-        // If there's only one item, include full details with definition
-        if (response.items.length === 1) {
-          const entity = response.items[0];
-          const text = `Total items found: ${response.totalItems}
+    return [{
+      type: "text",
+      text: 'Failed to generate image'
+    }];
+  }
+});
+
+const backstageTool = defineTool({
+  name: "get_entities_by_query",
+  description: "Search for Backstage API entities by a given query.",
+  group: "catalog",
+  schema: {
+    filter: z.string().describe("Filter for just the entities defined by this filter, e.g. metadata.tags=foo for tag foo in Backstage or metadata.name=<uid retrieved> to get details about a specific element"),
+    fields: z.string().optional().describe("Restrict to just these fields in the response."),
+    limit: z.number().int().optional().describe("Number of APIs to return in the response."),
+    orderField: z.string().optional().describe("The fields to sort returned results by."),
+    cursor: z.string().optional().describe("Cursor to a set page of results.")
+  },
+  handler: getEntitiesByQuery,
+  formatter: (response) => {
+    if (response.items && response.items.length > 0) {
+      // If there's only one item, include full details with definition
+      if (response.items.length === 1) {
+        const entity = response.items[0];
+        const text = `Total items found: ${response.totalItems}
 
 Entity title: ${entity.metadata.title}
 Entity id: ${entity.metadata.name}
@@ -838,17 +607,17 @@ Entity apiVersion: ${entity.apiVersion}
 Entity kind: ${entity.kind}
 Entity annotations: ${Object.entries(entity.metadata.annotations).map(([key, value]) => `${key}: ${value}`).join(', ')}`;
 
-          return [{
-            type: "text",
-            text: truncateString(text)
-          }];
-        }
+        return [{
+          type: "text",
+          text: truncateString(text)
+        }];
+      }
 
-        // For multiple items, combine all items into one string and truncate
-        const text = `Total items found: ${response.totalItems}
+      // For multiple items, combine all items into one string and truncate
+      const text = `Total items found: ${response.totalItems}
 
 ${response.items.map(entity =>
-          `Entity title: ${entity.metadata.title}
+        `Entity title: ${entity.metadata.title}
 Entity id: ${entity.metadata.name}
 Entity type: ${entity.spec.type}
 Entity owner: ${entity.spec.owner}
@@ -860,142 +629,44 @@ Entity lifecycle: ${entity.spec.lifecycle}
 Entity system: ${entity.spec.system}
 ---`).join('\n')}`;
 
-        return [{
-          type: "text",
-          text: truncateString(text)
-        }];
-      }
-
       return [{
         type: "text",
-        text: 'No entities found'
-      }];
-    } catch (err) {
-      console.error('Error getting entities by query:', err);
-      return [{
-        type: "text",
-        text: `Error getting entities by query: ${err.message}`
+        text: truncateString(text)
       }];
     }
-  },
-  get_all_elements_and_folders: async (params) => {
-    try {
-      const response = await fetchPrivateAPINetworkElements(params);
-      return formatPrivateApiResponse(response);
-    } catch (err) {
-      console.error('Error getting elements and folders:', err);
-      return [{
-        type: "text",
-        text: `Error getting elements and folders: ${err.message}`
-      }];
-    }
-  },
-  get_collection: async (params) => {
-    try {
-      const response = await fetchPostmanCollection(params);
-      const fullSpec = JSON.stringify(response, null, 2); // Convert full collection spec to string
-      const formattedResponse = formatCollectionResponse(response);
-
-      const text = formattedResponse.map(item => item.text).join('\n\n');
-      const fullText = `${text}\n\nFull Collection Spec:\n${fullSpec}`;
 
-      return [{
-        type: "text",
-        text: truncateString(fullText)
-      }];
-    } catch (err) {
-      console.error('Error getting collection:', err);
-      return [{
-        type: "text",
-        text: `Error getting collection: ${err.message}`
-      }];
-    }
-  },
-  generate_tool: async (params: GenerateToolParams) => {
-    try {
-      const response = await generate_tool_from_postman_request(params);
+    return [{
+      type: "text",
+      text: 'No entities found'
+    }];
+  }
+});
+
+// Single source of truth for all tools
+const toolRegistry: AnyToolDefinition[] = [
+  weatherTool,
+  sunoClassicTool,
+  sunoAceTool,
+  confluenceTool,
+  imageTool,
+  backstageTool,
+  postmanPrivateNetworkTool,
+  postmanCollectionTool,
+  postmanListCollectionFilesTool,
+  postmanExecuteRequestTool,
+  postmanRunCollectionTool,
+  postmanListEnvironmentsTool,
+  postmanGetEnvironmentTool,
+  postmanToolgenTool,
+  postmanNetworkSearchTool,
+  postmanEntitiesByTagTool,
+];
 
-      if ('data' in response) {
-        return [{
-          type: "text",
-          text: `Generated tool code:\n\n${response.data.text}`
-        }];
-      } else {
-        return [{
-          type: "text",
-          text: `Error generating tool: ${response.detail}`
-        }];
-      }
-    } catch (err) {
-      console.error('Error generating tool:', err);
-      return [{
-        type: "text",
-        text: `Error generating tool: ${err.message}`
-      }];
-    }
-  },
-  search_postman_network: async (params) => {
-    try {
-      const response = await search_postman_network(params);
-      if ('data' in response) {
-        const text = `Found ${response.meta.total} results:
-${response.data.map(result => `
-Name: ${result.name}
-Method: ${result.method}
-URL: ${result.url}
-Collection:
-  - ID: ${result.collection.id}
-  - Go URL: https://go.postman.co/collections/${result.collection.id}
-Workspace:
-  - ID: ${result.workspace.id}
-  - Go URL: https://go.postman.co/workspace/${result.workspace.id}
-Publisher: ${result.publisher.name}${result.publisher.isVerified ? ' (Verified)' : ''}
-Publisher Type: ${result.publisher.type}
-Publisher Profile: ${result.publisher.profilePicUrl}
-Links:
-  - Web View: ${result.links.web.href}
-  - API Endpoint: ${result.links.self.href}
----`).join('\n')}
-
-${response.meta.nextCursor ? `Next Page Cursor: ${response.meta.nextCursor}` : 'No more pages available'}`;
+// Fail at startup rather than at the first tool call
+validateToolRegistry(toolRegistry);
 
-        return [{
-          type: "text",
-          text: truncateString(text)
-        }];
-      } else {
-        return [{
-          type: "text",
-          text: `Error searching network: ${response.detail}`
-        }];
-      }
-    } catch (err) {
-      console.error('Error searching network:', err);
-      return [{
-        type: "text",
-        text: `Error searching network: ${err.message}`
-      }];
-    }
-  },
-  get_elements_by_tag: async (params) => {
-    try {
-      const response = await getElementsByTag(params);
-      if ('data' in response && response.data.entities.length > 0) {
-        const text = `Found ${response.data.entities.length} entities for tag '${params.slugId}':\n` +
-          response.data.entities.map((e, i) => `#${i + 1}: ${e.entityType} - ${e.entityId}`).join('\n') +
-          (response.meta.nextCursor ? `\nNext Cursor: ${response.meta.nextCursor}` : '');
-        return [{ type: 'text', text }];
-      } else if ('data' in response && response.data.entities.length === 0) {
-        return [{ type: 'text', text: 'No entities found for this tag.' }];
-      } else if ('detail' in response) {
-        return [{ type: 'text', text: `Error fetching entities by tag: ${response.detail}` }];
-      } else {
-        return [{ type: 'text', text: 'Unknown error fetching entities by tag.' }];
-      }
-    } catch (err) {
-      return [{ type: 'text', text: `Error fetching entities by tag: ${err.message}` }];
-    }
-  },
-};
+const zodSchemas: Record<string, ZodRawShape> = Object.fromEntries(
+  toolRegistry.map((tool) => [tool.name, tool.schema])
+);
 
-export { tools, functions, zodSchemas };
+export { toolRegistry, zodSchemas };
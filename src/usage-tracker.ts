@@ -0,0 +1,172 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+
+// The API reports cache tokens as well, the SDK types do not list them yet
+export type ApiUsage = Anthropic.Messages.Usage & {
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+};
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+};
+
+// Accumulated over a chat session and saved with it
+export type SessionUsage = {
+  requests: number;
+  byModel: Record<string, TokenUsage & { requests: number }>;
+  // Estimated prompt tokens the results of each tool added to the history
+  toolResults: Record<string, { calls: number; estimatedTokens: number }>;
+};
+
+const modelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheWrite: z.number().min(0).optional(),
+  cacheRead: z.number().min(0).optional(),
+}).strict();
+
+// USD per million tokens
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+// Keys match any model ID that contains them, so they cover dated versions and Bedrock IDs too.
+// MODEL_PRICES_FILE adds models or overrides these prices.
+const defaultModelPrices: Record<string, ModelPrice> = {
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  "claude-3-haiku": { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+  "claude-3-opus": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+};
+
+export const loadModelPrices = (): Record<string, ModelPrice> => {
+  const file = process.env.MODEL_PRICES_FILE;
+  if (!file) {
+    return defaultModelPrices;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path.resolve(file), "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read the model prices file ${file}: ${error.message}`);
+  }
+  const parsed = z.record(modelPriceSchema).safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `- ${issue.path.join(".") || "(file)"}: ${issue.message}`);
+    throw new Error(`Invalid model prices file ${file}:\n${issues.join("\n")}`);
+  }
+  return { ...defaultModelPrices, ...parsed.data };
+};
+
+// The longest matching key wins, e.g. gpt-4o-mini over gpt-4o
+export const findModelPrice = (prices: Record<string, ModelPrice>, model: string) => {
+  const key = Object.keys(prices)
+    .filter((candidate) => model.includes(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : undefined;
+};
+
+export const emptyTokenUsage = (): TokenUsage => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0,
+});
+
+export const toTokenUsage = (usage: ApiUsage): TokenUsage => ({
+  inputTokens: usage.input_tokens || 0,
+  outputTokens: usage.output_tokens || 0,
+  cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+  cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+});
+
+export const addTokenUsage = <T extends TokenUsage>(total: T, usage: TokenUsage): T => {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+  total.cacheReadInputTokens += usage.cacheReadInputTokens;
+  return total;
+};
+
+// Undefined when the price of the model is unknown, cache writes cost the input price without a cache price
+export const estimateCost = (prices: Record<string, ModelPrice>, model: string, usage: TokenUsage) => {
+  const price = findModelPrice(prices, model);
+  if (!price) return undefined;
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheCreationInputTokens * (price.cacheWrite ?? price.input) +
+    usage.cacheReadInputTokens * (price.cacheRead ?? price.input)
+  ) / 1_000_000;
+};
+
+export const createSessionUsage = (): SessionUsage => ({
+  requests: 0,
+  byModel: {},
+  toolResults: {},
+});
+
+export const recordRequest = (session: SessionUsage, model: string, usage: TokenUsage) => {
+  session.requests++;
+  session.byModel[model] ??= { ...emptyTokenUsage(), requests: 0 };
+  session.byModel[model].requests++;
+  addTokenUsage(session.byModel[model], usage);
+};
+
+export const recordToolResult = (session: SessionUsage, toolName: string, estimatedTokens: number) => {
+  session.toolResults[toolName] ??= { calls: 0, estimatedTokens: 0 };
+  session.toolResults[toolName].calls++;
+  session.toolResults[toolName].estimatedTokens += estimatedTokens;
+};
+
+// Share of the prompt tokens that were read from the cache
+export const cacheHitRate = (usage: TokenUsage) => {
+  const promptTokens = usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+  return promptTokens ? usage.cacheReadInputTokens / promptTokens : 0;
+};
+
+export const formatTokenUsage = (usage: TokenUsage) => {
+  const parts = [`${usage.inputTokens} input`, `${usage.outputTokens} output`];
+  if (usage.cacheCreationInputTokens) parts.push(`${usage.cacheCreationInputTokens} cache write`);
+  if (usage.cacheReadInputTokens) parts.push(`${usage.cacheReadInputTokens} cache read`);
+  const cached = usage.cacheCreationInputTokens || usage.cacheReadInputTokens
+    ? ` (${Math.round(cacheHitRate(usage) * 100)}% of the prompt from cache)`
+    : "";
+  return `${parts.join(", ")} tokens${cached}`;
+};
+
+export const formatCost = (cost: number | undefined) =>
+  cost === undefined ? "cost unknown" : `$${cost.toFixed(4)}`;
+
+// Session cost over all models, undefined if any of them has no price
+export const sessionCost = (session: SessionUsage, prices: Record<string, ModelPrice>) =>
+  Object.entries(session.byModel).reduce<number | undefined>((total, [model, usage]) => {
+    const cost = estimateCost(prices, model, usage);
+    return total === undefined || cost === undefined ? undefined : total + cost;
+  }, 0);
+
+export const formatUsageSummary = (session: SessionUsage, prices: Record<string, ModelPrice>) => {
+  const lines = [`Usage of this session: ${session.requests} requests, ${formatCost(sessionCost(session, prices))}`];
+  Object.entries(session.byModel).forEach(([model, usage]) => {
+    lines.push(`  ${model}: ${usage.requests} requests, ${formatTokenUsage(usage)}, ${formatCost(estimateCost(prices, model, usage))}`);
+  });
+
+  const tools = Object.entries(session.toolResults).sort(([, a], [, b]) => b.estimatedTokens - a.estimatedTokens);
+  if (tools.length) {
+    lines.push("Prompt tokens added by tool results (estimated):");
+    tools.forEach(([name, result]) => {
+      lines.push(`  ${name}: ${result.calls} calls, ~${result.estimatedTokens} tokens`);
+    });
+  }
+  return lines.join("\n");
+};